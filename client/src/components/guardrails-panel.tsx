@@ -0,0 +1,69 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { ISSUE_SEVERITIES, type IssueSeverity, type ValidationIssue } from "@shared/pipeline";
+
+const SEVERITY_VARIANT: Record<IssueSeverity, "destructive" | "secondary" | "outline"> = {
+  error: "destructive",
+  warning: "secondary",
+  info: "outline",
+};
+
+export function IssueList({ issues, className }: { issues: ValidationIssue[]; className?: string }) {
+  return (
+    <ul className={cn("space-y-2", className)} data-testid="list-issues">
+      {issues.map((issue, i) => (
+        <li key={`${issue.rule}-${issue.path}-${i}`} className="text-sm" data-testid={`issue-${issue.rule}-${i}`}>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant={SEVERITY_VARIANT[issue.severity]}>{issue.severity}</Badge>
+            <span className="ui-mono text-xs">{issue.rule}</span>
+            <span className="ui-mono text-xs text-muted-foreground">{issue.path}</span>
+          </div>
+          <div className="mt-1">{issue.message}</div>
+          <div className="text-xs text-muted-foreground">Fix: {issue.fix}</div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Every issue validatePlan reports for the current plan, errors first, plus
+// the report that blocked the last run when there is one.
+export function GuardrailsPanel({
+  issues,
+  blocked,
+}: {
+  issues: ValidationIssue[];
+  blocked: ValidationIssue[] | null;
+}) {
+  const sorted = [...issues].sort((a, b) => ISSUE_SEVERITIES.indexOf(a.severity) - ISSUE_SEVERITIES.indexOf(b.severity));
+  const counts = ISSUE_SEVERITIES.map((s) => [s, issues.filter((i) => i.severity === s).length] as const);
+
+  return (
+    <div className="space-y-4" data-testid="panel-guardrails-report">
+      {blocked ? (
+        <div className="rounded-xl bg-destructive/10 p-3" data-testid="section-blocked">
+          <div className="text-sm font-medium text-destructive">Last run was blocked</div>
+          <IssueList issues={blocked.filter((i) => i.severity === "error")} className="mt-2" />
+        </div>
+      ) : null}
+
+      <div>
+        <div className="flex items-center gap-2">
+          <div className="text-sm font-medium">Current plan</div>
+          {counts.map(([severity, n]) => (
+            <Badge key={severity} variant="outline" data-testid={`badge-count-${severity}`}>
+              {n} {severity}
+            </Badge>
+          ))}
+        </div>
+        {sorted.length === 0 ? (
+          <div className="mt-2 text-sm text-muted-foreground" data-testid="text-no-issues">
+            No issues found.
+          </div>
+        ) : (
+          <IssueList issues={sorted} className="mt-3" />
+        )}
+      </div>
+    </div>
+  );
+}
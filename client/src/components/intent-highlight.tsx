@@ -0,0 +1,95 @@
+import type { ReactNode } from "react";
+import { cn } from "@/lib/utils";
+import { parsePrompt, type ChartTarget, type Intent, type IntentKind } from "@shared/pipeline";
+
+const KIND_CLASS: Record<IntentKind, string> = {
+  add: "bg-primary/15",
+  remove: "bg-destructive/15 text-destructive",
+  "set-tone": "bg-accent",
+  "set-layout": "bg-accent",
+  "set-title": "bg-secondary",
+  "set-content": "bg-secondary",
+  kpi: "bg-secondary",
+  table: "bg-secondary",
+  chart: "bg-primary/10",
+  move: "bg-muted",
+  "set-columns": "bg-muted",
+};
+
+const CHART_TARGETS: Partial<Record<ChartTarget, string>> = {
+  current: "charts",
+  any: "chart",
+  all: "all charts",
+};
+
+function describe(intent: Intent) {
+  switch (intent.kind) {
+    case "add":
+      return `add ${intent.another ? "another " : ""}${intent.component}`;
+    case "remove":
+      return `remove ${intent.components.join(", ")}`;
+    case "set-tone":
+      return `tone → ${intent.tone}`;
+    case "set-layout":
+      return `layout → ${intent.layout}`;
+    case "set-title":
+      return "set title";
+    case "set-content":
+      return `set ${intent.field}`;
+    case "kpi":
+      switch (intent.edit.op) {
+        case "replace":
+          return `KPIs → ${intent.edit.kpis.map((k) => k.label).join(", ")}`;
+        case "add":
+          return `add KPI ${intent.edit.kpi.label}`;
+        case "rename":
+          return `rename KPI ${intent.edit.from} → ${intent.edit.to}`;
+        case "remove":
+          return `remove KPI ${intent.edit.label}`;
+      }
+      break;
+    case "table":
+      return `table → ${intent.table.columns.length} columns, ${intent.table.rows.length} rows (${intent.source})`;
+    case "chart": {
+      const { series, x, aggregate, stacked, legend } = intent.spec;
+      const parts = [
+        series && `${aggregate ?? "sum"} of ${series.map((s) => s.field).join(", ")}`,
+        !series && aggregate && `aggregate → ${aggregate}`,
+        x && `by ${x}`,
+        stacked !== undefined && (stacked ? "stacked" : "unstacked"),
+        legend !== undefined && (legend ? "legend" : "no legend"),
+      ].filter(Boolean);
+      const target = CHART_TARGETS[intent.target] ?? intent.target;
+      return `${intent.another ? "another " : ""}${target}: ${parts.join(", ")}`;
+    }
+    case "move":
+      return `move ${intent.components.join(", ")}`;
+    case "set-columns":
+      return `main area → ${intent.count} column${intent.count === 1 ? "" : "s"}`;
+  }
+}
+
+// Shows a user prompt with the spans the planner acted on highlighted; the
+// hover title names the intent each span produced.
+export function IntentHighlight({ text }: { text: string }) {
+  const intents = parsePrompt(text);
+  const out: ReactNode[] = [];
+  let at = 0;
+  intents.forEach((intent, i) => {
+    const { start, end } = intent.span;
+    if (start > at) out.push(text.slice(at, start));
+    out.push(
+      <mark
+        key={i}
+        className={cn("rounded px-0.5 text-current", KIND_CLASS[intent.kind])}
+        title={describe(intent)}
+        data-testid={`intent-${intent.kind}-${i}`}
+      >
+        {text.slice(start, end)}
+      </mark>,
+    );
+    at = end;
+  });
+  if (at < text.length) out.push(text.slice(at));
+  return <>{out}</>;
+}
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { fromZodError } from "zod-validation-error";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { guardrailPolicySchema, type GuardrailPolicy } from "@shared/pipeline";
+
+// Edits the project's guardrail policy as JSON. Saving `null` resets it to
+// the default policy.
+export function PolicyDialog({
+  policy,
+  onSave,
+}: {
+  policy: GuardrailPolicy;
+  onSave: (policy: GuardrailPolicy | null) => Promise<void>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  async function save(next: GuardrailPolicy | null) {
+    setSaving(true);
+    try {
+      await onSave(next);
+      setOpen(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function submit() {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (err) {
+      setError(`Invalid JSON: ${(err as Error).message}`);
+      return;
+    }
+    const parsed = guardrailPolicySchema.safeParse(json);
+    if (!parsed.success) {
+      setError(fromZodError(parsed.error).message);
+      return;
+    }
+    save(parsed.data);
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) {
+          setText(JSON.stringify(policy, null, 2));
+          setError(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" data-testid="button-edit-policy">
+          Edit policy
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl" data-testid="dialog-policy">
+        <DialogHeader>
+          <DialogTitle>Guardrail policy</DialogTitle>
+          <DialogDescription>
+            Rules every plan in this project is validated against. Set <span className="ui-mono">enabled</span> to
+            switch a rule off, and <span className="ui-mono">severity</span> to warn instead of block.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="ui-mono min-h-[320px] text-xs"
+          spellCheck={false}
+          data-testid="input-policy"
+        />
+        {error ? (
+          <div className="rounded-xl bg-destructive/10 text-destructive px-3 py-2 text-sm" data-testid="status-policy-error">
+            {error}
+          </div>
+        ) : null}
+        <DialogFooter>
+          <Button variant="ghost" disabled={saving} onClick={() => save(null)} data-testid="button-reset-policy">
+            Reset to default
+          </Button>
+          <Button disabled={saving} onClick={submit} data-testid="button-save-policy">
+            {saving ? "Saving…" : "Save policy"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,656 @@
+import { createContext, useContext, type CSSProperties, type ReactNode } from "react";
+import { useForm } from "react-hook-form";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from "@/components/ui/empty";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+} from "@/components/ui/sidebar";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  COLUMN_CLASS,
+  chartConfig,
+  chartData,
+  customComponent,
+  formatValue,
+  registerComponent,
+  ROW_CLASS,
+  seriesKey,
+  spanClass,
+  toneClass,
+  type ChartKind,
+  type ChartProps,
+  type ComponentDefinition,
+  type ComponentInstance,
+  type ComponentName,
+  type ComponentProps,
+  type DatasetData,
+  type LayoutNode,
+  type UIPlan,
+} from "@shared/pipeline";
+import { Bell, FileBarChart, Inbox, LayoutDashboard, Settings } from "lucide-react";
+
+export type PreviewProps<K extends ComponentName = ComponentName> = {
+  plan: UIPlan;
+  props: ComponentProps[K];
+  children?: ReactNode;
+};
+
+export type PreviewRenderer<K extends ComponentName = ComponentName> = (props: PreviewProps<K>) => ReactNode;
+
+// Uploaded datasets by id. Components bound to a dataset that is not loaded
+// fall back to their own props or the sample series.
+export const PreviewDatasets = createContext<ReadonlyMap<string, DatasetData>>(new Map());
+
+function useDataset(id: string | undefined) {
+  const datasets = useContext(PreviewDatasets);
+  return id ? datasets.get(id) : undefined;
+}
+
+const PREVIEW_TABLE_ROWS = 50;
+
+function DatasetBadge({ dataset }: { dataset: DatasetData | undefined }) {
+  if (!dataset) return null;
+  return (
+    <Badge variant="outline" className="max-w-[50%] truncate" title={dataset.name} data-testid="badge-dataset">
+      {dataset.name}
+    </Badge>
+  );
+}
+
+const NAV_ICONS = [LayoutDashboard, FileBarChart, Bell, Settings];
+
+function AppShell({ children }: PreviewProps<"AppShell">) {
+  return (
+    <div
+      className={cn("rounded-2xl ui-surface ui-inset-ring overflow-hidden", "min-h-[520px]")}
+      data-testid="preview-root"
+    >
+      {children}
+    </div>
+  );
+}
+
+function TopNav({ plan }: PreviewProps<"TopNav">) {
+  return (
+    <div className={cn("p-4 border-b", toneClass(plan.tone))}>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="ui-title text-lg" data-testid="text-preview-title">
+            {plan.content.title}
+          </div>
+          {plan.content.subtitle ? (
+            <div className="text-sm text-muted-foreground" data-testid="text-preview-subtitle">
+              {plan.content.subtitle}
+            </div>
+          ) : null}
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary" data-testid="badge-layout">
+            {plan.layout}
+          </Badge>
+          <Badge variant="outline" data-testid="badge-tone">
+            {plan.tone}
+          </Badge>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PreviewSidebar({ props }: PreviewProps<"Sidebar">) {
+  return (
+    <SidebarProvider className="min-h-0 h-full" style={{ "--sidebar-width": "100%" } as CSSProperties}>
+      <Sidebar collapsible="none" className="bg-transparent" data-testid="panel-sidebar">
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Navigation</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {props.items.map((label, i) => {
+                  const Icon = NAV_ICONS[i] ?? LayoutDashboard;
+                  return (
+                    <SidebarMenuItem key={label}>
+                      <SidebarMenuButton isActive={i === 0} data-testid={`button-nav-${label.toLowerCase()}`}>
+                        <Icon />
+                        <span>{label}</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  );
+                })}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+    </SidebarProvider>
+  );
+}
+
+function KPIGrid({ props }: PreviewProps<"KPIGrid">) {
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3" data-testid="grid-kpis">
+      {props.kpis.map((k, idx) => (
+        <div key={k.label} className="rounded-xl ui-inset-ring bg-card/70 p-3" data-testid={`card-kpi-${idx}`}>
+          <div className="text-xs text-muted-foreground" data-testid={`text-kpi-label-${idx}`}>
+            {k.label}
+          </div>
+          <div className="text-lg font-semibold" data-testid={`text-kpi-value-${idx}`}>
+            {k.value}
+          </div>
+          {k.delta ? (
+            <div className="text-xs text-muted-foreground" data-testid={`text-kpi-delta-${idx}`}>
+              {k.delta}
+            </div>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Both chart cards share one body. A stacked line chart draws as stacked
+// areas so the series visibly add up.
+function ChartCard({ props, kind }: { props: ChartProps; kind: ChartKind }) {
+  const dataset = useDataset(props.dataset);
+  const { series, points } = chartData(props, kind, dataset);
+  const config = chartConfig(series) satisfies ChartConfig;
+  const axes = [
+    <CartesianGrid key="grid" vertical={false} />,
+    <XAxis key="x" dataKey="x" tickLine={false} axisLine={false} tickMargin={8} />,
+    <YAxis key="y" width={32} tickLine={false} axisLine={false} />,
+    <ChartTooltip key="tooltip" content={<ChartTooltipContent />} />,
+    props.legend ? <ChartLegend key="legend" content={<ChartLegendContent />} /> : null,
+  ];
+
+  return (
+    <div className="rounded-xl ui-inset-ring bg-card/70 p-3" data-testid={`card-${kind}-chart`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="text-sm font-medium">{props.title}</div>
+        <DatasetBadge dataset={dataset} />
+      </div>
+      <ChartContainer config={config} className="aspect-auto h-36 w-full">
+        {kind === "line" && props.stacked ? (
+          <AreaChart data={points} margin={{ left: 0, right: 8, top: 4 }}>
+            {axes}
+            {series.map((s, i) => (
+              <Area
+                key={s.field}
+                dataKey={seriesKey(i)}
+                type="monotone"
+                stroke={`var(--color-${seriesKey(i)})`}
+                fill={`var(--color-${seriesKey(i)})`}
+                fillOpacity={0.3}
+                stackId="stack"
+              />
+            ))}
+          </AreaChart>
+        ) : kind === "line" ? (
+          <LineChart data={points} margin={{ left: 0, right: 8, top: 4 }}>
+            {axes}
+            {series.map((s, i) => (
+              <Line
+                key={s.field}
+                dataKey={seriesKey(i)}
+                type="monotone"
+                stroke={`var(--color-${seriesKey(i)})`}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        ) : (
+          <BarChart data={points} margin={{ left: 0, right: 8, top: 4 }}>
+            {axes}
+            {series.map((s, i) => (
+              <Bar
+                key={s.field}
+                dataKey={seriesKey(i)}
+                fill={`var(--color-${seriesKey(i)})`}
+                radius={4}
+                stackId={props.stacked ? "stack" : undefined}
+              />
+            ))}
+          </BarChart>
+        )}
+      </ChartContainer>
+    </div>
+  );
+}
+
+function LineChartCard({ props }: PreviewProps<"LineChartCard">) {
+  return <ChartCard props={props} kind="line" />;
+}
+
+function BarChartCard({ props }: PreviewProps<"BarChartCard">) {
+  return <ChartCard props={props} kind="bar" />;
+}
+
+function DataTable({ props }: PreviewProps<"DataTable">) {
+  const dataset = useDataset(props.dataset);
+  const table = dataset
+    ? {
+        title: props.title,
+        columns: dataset.columns.map((c) => c.name),
+        rows: dataset.rows.slice(0, PREVIEW_TABLE_ROWS).map((r) => r.map(formatValue)),
+      }
+    : props;
+  return (
+    <div className="rounded-xl ui-inset-ring bg-card/70 p-3" data-testid="card-table">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="text-sm font-medium">{table.title}</div>
+        {dataset ? (
+          <DatasetBadge dataset={dataset} />
+        ) : (
+          <Badge variant="secondary" data-testid="badge-safe">
+            whitelist
+          </Badge>
+        )}
+      </div>
+      <div className="overflow-auto">
+        <Table data-testid="table-preview">
+          <TableHeader>
+            <TableRow>
+              {table.columns.map((c, i) => (
+                <TableHead key={c} data-testid={`th-${i}`}>
+                  {c}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {table.rows.map((r, ri) => (
+              <TableRow key={ri} data-testid={`tr-${ri}`}>
+                {r.map((cell, ci) => (
+                  <TableCell key={ci} data-testid={`td-${ri}-${ci}`}>
+                    {cell}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {dataset && dataset.rows.length > PREVIEW_TABLE_ROWS ? (
+        <div className="mt-2 text-xs text-muted-foreground" data-testid="text-table-truncated">
+          Showing {PREVIEW_TABLE_ROWS} of {dataset.rows.length} rows.
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function EmptyState({ props }: PreviewProps<"EmptyState">) {
+  return (
+    <Empty className="rounded-xl ui-inset-ring bg-card/60" data-testid="empty-state">
+      <EmptyHeader>
+        <EmptyMedia variant="icon">
+          <Inbox />
+        </EmptyMedia>
+        <EmptyTitle>{props.title}</EmptyTitle>
+        <EmptyDescription>{props.description}</EmptyDescription>
+      </EmptyHeader>
+    </Empty>
+  );
+}
+
+function SettingsModal({ plan, props }: PreviewProps<"SettingsModal">) {
+  return (
+    <div data-testid="settings-inline">
+      <Dialog>
+        <DialogTrigger asChild>
+          <Button variant="secondary" data-testid="button-open-settings">
+            Open {props.title.toLowerCase()}
+          </Button>
+        </DialogTrigger>
+        <DialogContent data-testid="dialog-settings">
+          <DialogHeader>
+            <DialogTitle>{props.title}</DialogTitle>
+            <DialogDescription>Preferences for {plan.content.title}.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="settings-name">Display name</Label>
+              <Input id="settings-name" defaultValue={plan.content.title} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="settings-notifications">Email notifications</Label>
+              <Switch id="settings-notifications" defaultChecked />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button>Save changes</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function Hero({ plan, props }: PreviewProps<"Hero">) {
+  return (
+    <section
+      className={cn("rounded-xl ui-inset-ring px-6 py-10 text-center", toneClass(plan.tone))}
+      data-testid="section-hero"
+    >
+      <div className="ui-title text-3xl" data-testid="text-hero-headline">
+        {props.headline}
+      </div>
+      {props.subheadline ? (
+        <p className="mx-auto mt-3 max-w-2xl text-muted-foreground" data-testid="text-hero-subheadline">
+          {props.subheadline}
+        </p>
+      ) : null}
+      <div className="mt-6 flex justify-center gap-2">
+        <Button data-testid="button-hero-primary">{props.primaryCta}</Button>
+        {props.secondaryCta ? (
+          <Button variant="outline" data-testid="button-hero-secondary">
+            {props.secondaryCta}
+          </Button>
+        ) : null}
+      </div>
+    </section>
+  );
+}
+
+function PricingTable({ props }: PreviewProps<"PricingTable">) {
+  return (
+    <section className="space-y-3" data-testid="section-pricing">
+      <div className="text-sm font-medium">{props.title}</div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {props.plans.map((p, i) => (
+          <div
+            key={p.name}
+            className={cn(
+              "flex flex-col rounded-xl ui-inset-ring bg-card/70 p-4",
+              p.highlighted && "ring-2 ring-primary shadow-sm",
+            )}
+            data-testid={`card-plan-${i}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="font-medium">{p.name}</div>
+              {p.highlighted ? <Badge>Popular</Badge> : null}
+            </div>
+            <div className="mt-2">
+              <span className="text-2xl font-semibold">{p.price}</span>
+              {p.period ? <span className="text-sm text-muted-foreground">{p.period}</span> : null}
+            </div>
+            <ul className="mt-3 flex-1 space-y-1 text-sm text-muted-foreground">
+              {p.features.map((f) => (
+                <li key={f}>{f}</li>
+              ))}
+            </ul>
+            <Button className="mt-4" variant={p.highlighted ? "default" : "outline"}>
+              {p.cta}
+            </Button>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function FeatureGrid({ props }: PreviewProps<"FeatureGrid">) {
+  return (
+    <section className="space-y-3" data-testid="section-features">
+      <div className="text-sm font-medium">{props.title}</div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {props.features.map((f, i) => (
+          <div key={f.title} className="rounded-xl ui-inset-ring bg-card/70 p-4" data-testid={`card-feature-${i}`}>
+            <div className="font-medium">{f.title}</div>
+            <div className="mt-1 text-sm text-muted-foreground">{f.description}</div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function Testimonial({ props }: PreviewProps<"Testimonial">) {
+  const initials = props.author
+    .split(/\s+/)
+    .map((w) => w.charAt(0))
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
+  return (
+    <figure className="rounded-xl ui-inset-ring bg-card/70 p-4" data-testid="card-testimonial">
+      <blockquote className="text-base">“{props.quote}”</blockquote>
+      <figcaption className="mt-3 flex items-center gap-3">
+        <Avatar>
+          <AvatarFallback>{initials}</AvatarFallback>
+        </Avatar>
+        <div>
+          <div className="text-sm font-medium">{props.author}</div>
+          {props.role ? <div className="text-xs text-muted-foreground">{props.role}</div> : null}
+        </div>
+      </figcaption>
+    </figure>
+  );
+}
+
+function FormCard({ props }: PreviewProps<"FormCard">) {
+  const form = useForm<Record<string, string>>({
+    defaultValues: Object.fromEntries(props.fields.map((f) => [f.name, ""])),
+  });
+  return (
+    <div className="rounded-xl ui-inset-ring bg-card/70 p-4" data-testid="card-form">
+      <div className="text-sm font-medium">{props.title}</div>
+      {props.description ? <div className="text-sm text-muted-foreground">{props.description}</div> : null}
+      <Form {...form}>
+        <form className="mt-3 space-y-3" onSubmit={form.handleSubmit(() => form.reset())}>
+          {props.fields.map((f) => (
+            <FormField
+              key={f.name}
+              control={form.control}
+              name={f.name}
+              rules={f.required ? { required: `${f.label} is required` } : undefined}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{f.label}</FormLabel>
+                  <FormControl>
+                    {f.type === "textarea" ? (
+                      <Textarea placeholder={f.placeholder} data-testid={`input-form-${f.name}`} {...field} />
+                    ) : (
+                      <Input
+                        type={f.type}
+                        placeholder={f.placeholder}
+                        data-testid={`input-form-${f.name}`}
+                        {...field}
+                      />
+                    )}
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+          <Button type="submit" data-testid="button-form-submit">
+            {props.submitLabel}
+          </Button>
+        </form>
+      </Form>
+    </div>
+  );
+}
+
+function TabsPanel({ props }: PreviewProps<"TabsPanel">) {
+  return (
+    <Tabs
+      defaultValue={props.tabs[0].label}
+      className="rounded-xl ui-inset-ring bg-card/70 p-3"
+      data-testid="tabs-panel"
+    >
+      <TabsList>
+        {props.tabs.map((t, i) => (
+          <TabsTrigger key={t.label} value={t.label} data-testid={`tab-${i}`}>
+            {t.label}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+      {props.tabs.map((t) => (
+        <TabsContent key={t.label} value={t.label} className="text-sm text-muted-foreground">
+          {t.content}
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+}
+
+function FAQAccordion({ props }: PreviewProps<"FAQAccordion">) {
+  return (
+    <div className="rounded-xl ui-inset-ring bg-card/70 p-4" data-testid="card-faq">
+      <div className="text-sm font-medium">{props.title}</div>
+      <Accordion type="single" collapsible>
+        {props.items.map((item, i) => (
+          <AccordionItem key={i} value={`item-${i}`}>
+            <AccordionTrigger data-testid={`button-faq-${i}`}>{item.question}</AccordionTrigger>
+            <AccordionContent className="text-muted-foreground">{item.answer}</AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </div>
+  );
+}
+
+function PageFooter({ props }: PreviewProps<"Footer">) {
+  return (
+    <div
+      className="flex flex-wrap items-center justify-between gap-3 text-sm text-muted-foreground"
+      data-testid="page-footer"
+    >
+      <span>{props.text}</span>
+      <nav className="flex gap-4">
+        {props.links.map((l) => (
+          <a key={l} href="#" className="hover:text-foreground" onClick={(e) => e.preventDefault()}>
+            {l}
+          </a>
+        ))}
+      </nav>
+    </div>
+  );
+}
+
+export const previewRenderers: { [K in ComponentName]: PreviewRenderer<K> } = {
+  AppShell,
+  TopNav,
+  Sidebar: PreviewSidebar,
+  KPIGrid,
+  LineChartCard,
+  BarChartCard,
+  DataTable,
+  SettingsModal,
+  EmptyState,
+  Hero,
+  PricingTable,
+  FeatureGrid,
+  Testimonial,
+  FormCard,
+  TabsPanel,
+  FAQAccordion,
+  Footer: PageFooter,
+};
+
+// A registered component together with the renderer the studio previews it
+// with. Modules in client/src/plugins register these at startup.
+export type StudioComponentDefinition<P extends Record<string, unknown>> = ComponentDefinition<
+  P,
+  (props: { plan: UIPlan; props: P; children?: ReactNode }) => ReactNode
+>;
+
+export function registerStudioComponent<P extends Record<string, unknown>>(definition: StudioComponentDefinition<P>) {
+  return registerComponent(definition);
+}
+
+// Stands in for a plugin type this browser has not registered, as in a
+// version saved, or shared in a session, by a client with more plugins.
+function UnknownComponent({ type, children }: { type: string; children?: ReactNode }) {
+  return (
+    <div
+      className="rounded-xl border border-dashed p-4 text-sm text-muted-foreground"
+      data-testid={`unknown-component-${type}`}
+    >
+      Unknown component <span className="ui-mono">{type}</span>
+      {children}
+    </div>
+  );
+}
+
+// Renders one plan instance with the renderer registered for its type.
+export function renderInstance(plan: UIPlan, instance: ComponentInstance, children?: ReactNode) {
+  const Renderer = (previewRenderers[instance.type] ?? customComponent(instance.type)?.preview) as
+    | PreviewRenderer
+    | undefined;
+  if (!Renderer) {
+    return (
+      <UnknownComponent key={instance.id} type={instance.type}>
+        {children}
+      </UnknownComponent>
+    );
+  }
+  return (
+    <Renderer key={instance.id} plan={plan} props={instance.props}>
+      {children}
+    </Renderer>
+  );
+}
+
+// Renders a region's layout tree; children of a row take their span hints.
+export function renderNodes(plan: UIPlan, nodes: LayoutNode[], inRow = false): ReactNode[] {
+  return nodes.map((node, i) => {
+    if (node.kind !== "component") {
+      return (
+        <div
+          key={`${node.kind}-${i}`}
+          className={cn(inRow && spanClass(node, nodes.length), node.kind === "row" ? ROW_CLASS : COLUMN_CLASS)}
+          data-testid={`layout-${node.kind}`}
+        >
+          {renderNodes(plan, node.children, node.kind === "row")}
+        </div>
+      );
+    }
+    const instance = plan.components.find((c) => c.id === node.ref);
+    if (!instance) return null;
+    if (!inRow) return renderInstance(plan, instance);
+    return (
+      <div key={node.ref} className={cn("min-w-0", spanClass(node, nodes.length))}>
+        {renderInstance(plan, instance)}
+      </div>
+    );
+  });
+}
@@ -0,0 +1,222 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { cn } from "@/lib/utils";
+import { diffModels, type LineChange, type ModelDiff, type UIModel } from "@shared/pipeline";
+import { GitCompare } from "lucide-react";
+
+type CompareVersion = {
+  id: string;
+  parentId: string | null;
+  model: UIModel;
+};
+
+// Unchanged runs longer than this are folded, keeping CONTEXT lines on each side.
+const CONTEXT = 2;
+
+type CodeRow = LineChange | { kind: "fold"; count: number };
+
+function foldUnchanged(lines: LineChange[]): CodeRow[] {
+  const rows: CodeRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].kind !== "same") {
+      rows.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].kind === "same") end++;
+    const run = lines.slice(i, end);
+    const head = i === 0 ? 0 : CONTEXT;
+    const tail = end === lines.length ? 0 : CONTEXT;
+    if (run.length > head + tail + 1) {
+      rows.push(...run.slice(0, head), { kind: "fold", count: run.length - head - tail });
+      rows.push(...run.slice(run.length - tail));
+    } else {
+      rows.push(...run);
+    }
+    i = end;
+  }
+  return rows;
+}
+
+function Section({ title, testId, children }: { title: string; testId: string; children: ReactNode }) {
+  return (
+    <div data-testid={testId}>
+      <div className="text-xs text-muted-foreground mb-2">{title}</div>
+      {children}
+    </div>
+  );
+}
+
+export function ModelDiffView({ diff }: { diff: ModelDiff }) {
+  if (diff.unchanged) {
+    return (
+      <div className="text-sm text-muted-foreground" data-testid="text-diff-unchanged">
+        These versions are identical.
+      </div>
+    );
+  }
+
+  const codeRows = foldUnchanged(diff.code);
+
+  return (
+    <div className="space-y-4" data-testid="diff-view">
+      {diff.layout || diff.tone ? (
+        <Section title="Plan" testId="diff-plan">
+          <div className="space-y-1 text-sm">
+            {diff.layout ? (
+              <div>
+                Layout: <span className="line-through text-muted-foreground">{diff.layout.before}</span> →{" "}
+                <span className="font-medium">{diff.layout.after}</span>
+              </div>
+            ) : null}
+            {diff.tone ? (
+              <div>
+                Tone: <span className="line-through text-muted-foreground">{diff.tone.before}</span> →{" "}
+                <span className="font-medium">{diff.tone.after}</span>
+              </div>
+            ) : null}
+          </div>
+        </Section>
+      ) : null}
+
+      {diff.componentsAdded.length > 0 || diff.componentsRemoved.length > 0 ? (
+        <Section title="Components" testId="diff-components">
+          <div className="flex flex-wrap gap-1">
+            {diff.componentsAdded.map((c) => (
+              <Badge key={`+${c.id}`} variant="secondary" data-testid={`badge-added-${c.id}`}>
+                + {c.type} <span className="ui-mono opacity-70">#{c.id}</span>
+              </Badge>
+            ))}
+            {diff.componentsRemoved.map((c) => (
+              <Badge key={`-${c.id}`} variant="destructive" data-testid={`badge-removed-${c.id}`}>
+                − {c.type} <span className="ui-mono opacity-70">#{c.id}</span>
+              </Badge>
+            ))}
+          </div>
+        </Section>
+      ) : null}
+
+      {diff.content.length > 0 ? (
+        <Section title="Content" testId="diff-content">
+          <div className="space-y-1 text-sm">
+            {diff.content.map((c) => (
+              <div key={c.path} className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-2">
+                <span className="ui-mono text-xs text-muted-foreground truncate" title={c.path}>
+                  {c.path}
+                </span>
+                <span className="min-w-0 break-words">
+                  {c.before !== undefined ? (
+                    <span className="line-through text-muted-foreground">{c.before}</span>
+                  ) : null}
+                  {c.kind === "changed" ? " → " : null}
+                  {c.after !== undefined ? <span className="font-medium">{c.after}</span> : null}
+                </span>
+              </div>
+            ))}
+          </div>
+        </Section>
+      ) : null}
+
+      <Section title="Code" testId="diff-code">
+        <pre className="ui-mono ui-inset-ring rounded-xl p-3 text-[12px] leading-relaxed overflow-auto max-h-[40vh]">
+          {codeRows.map((row, i) =>
+            row.kind === "fold" ? (
+              <div key={i} className="text-muted-foreground italic">
+                {`  … ${row.count} unchanged lines`}
+              </div>
+            ) : (
+              <div
+                key={i}
+                className={cn(
+                  row.kind === "added" && "bg-primary/10",
+                  row.kind === "removed" && "bg-destructive/10 text-destructive",
+                )}
+              >
+                {row.kind === "added" ? "+ " : row.kind === "removed" ? "- " : "  "}
+                {row.text}
+              </div>
+            ),
+          )}
+        </pre>
+      </Section>
+    </div>
+  );
+}
+
+export function CompareDialog({
+  versions,
+  currentId,
+}: {
+  versions: CompareVersion[];
+  currentId: string | null;
+}) {
+  const [baseId, setBaseId] = useState<string>("");
+  const [targetId, setTargetId] = useState<string>("");
+
+  const numberOf = new Map(versions.map((v, i) => [v.id, i + 1]));
+  const base = versions.find((v) => v.id === baseId);
+  const target = versions.find((v) => v.id === targetId);
+
+  const diff = useMemo(
+    () => (base && target ? diffModels(base.model, target.model) : null),
+    [base, target],
+  );
+
+  // Default to "current version against the one it was made from".
+  function onOpenChange(open: boolean) {
+    if (!open) return;
+    const current = versions.find((v) => v.id === currentId) ?? versions[versions.length - 1];
+    const parent = versions.find((v) => v.id === current?.parentId);
+    setTargetId(current?.id ?? "");
+    setBaseId(parent?.id ?? current?.id ?? "");
+  }
+
+  const options = versions.map((v) => (
+    <SelectItem key={v.id} value={v.id}>
+      #{numberOf.get(v.id)} {v.model.plan.layout} • {v.model.plan.tone}
+    </SelectItem>
+  ));
+
+  return (
+    <Dialog onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="secondary" className="gap-2" data-testid="button-compare">
+          <GitCompare className="h-4 w-4" />
+          Compare
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl" data-testid="dialog-compare">
+        <DialogHeader>
+          <DialogTitle>Compare versions</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          <Select value={baseId} onValueChange={setBaseId}>
+            <SelectTrigger data-testid="select-compare-base">
+              <SelectValue placeholder="Base version" />
+            </SelectTrigger>
+            <SelectContent>{options}</SelectContent>
+          </Select>
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger data-testid="select-compare-target">
+              <SelectValue placeholder="Compared version" />
+            </SelectTrigger>
+            <SelectContent>{options}</SelectContent>
+          </Select>
+        </div>
+        <Separator className="my-3" />
+        <div className="max-h-[60vh] overflow-auto">
+          {diff ? (
+            <ModelDiffView diff={diff} />
+          ) : (
+            <div className="text-sm text-muted-foreground">Pick two versions to compare.</div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
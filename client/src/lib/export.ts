@@ -0,0 +1,20 @@
+import type { GuardrailPolicy, UIPlan } from "@shared/pipeline";
+import { apiRequest } from "./queryClient";
+
+// Asks the server to package the plan as a standalone Vite project and
+// hands the zip to the browser as a download. The server validates the plan
+// against the same policy the studio did.
+export async function downloadProjectArchive(plan: UIPlan, policy: GuardrailPolicy): Promise<void> {
+  const res = await apiRequest("POST", "/api/export", { plan, policy });
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? "generated-ui.zip";
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
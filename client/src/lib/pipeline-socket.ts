@@ -0,0 +1,72 @@
+import {
+  PIPELINE_SOCKET_PATH,
+  type PipelineEvent,
+  type PipelineSocketMessage,
+  type PipelineSocketRequest,
+} from "@shared/pipeline";
+
+export type PipelineRun = Omit<Extract<PipelineSocketRequest, { type: "run" }>, "type" | "id">;
+
+function socketUrl() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${PIPELINE_SOCKET_PATH}`;
+}
+
+// Runs the pipeline on the server and yields its events as they arrive,
+// ending after "done" or "blocked". Aborting `signal` cancels the run on the
+// server and ends the stream early; failures are thrown.
+export async function* streamServerPipeline(run: PipelineRun, signal: AbortSignal): AsyncGenerator<PipelineEvent> {
+  const id = crypto.randomUUID();
+  const ws = new WebSocket(socketUrl());
+  const queue: PipelineSocketMessage[] = [];
+  let failed = false;
+  let closed = false;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  ws.onopen = () => ws.send(JSON.stringify({ type: "run", id, ...run }));
+  ws.onmessage = (e) => {
+    const message = JSON.parse(String(e.data)) as PipelineSocketMessage;
+    if (message.id !== id && message.id !== null) return;
+    queue.push(message);
+    notify();
+  };
+  ws.onerror = () => {
+    failed = true;
+    notify();
+  };
+  ws.onclose = () => {
+    closed = true;
+    notify();
+  };
+
+  const cancel = () => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: "cancel", id }));
+    else ws.close();
+  };
+  signal.addEventListener("abort", cancel);
+
+  try {
+    while (true) {
+      const message = queue.shift();
+      if (!message) {
+        if (signal.aborted && closed) return;
+        if (failed || closed) throw new Error("Lost the connection to the pipeline server");
+        await new Promise<void>((resolve) => (wake = resolve));
+        continue;
+      }
+      if (message.type === "cancelled") return;
+      if (message.type === "error") throw new Error(message.message);
+
+      const { id: _id, ...event } = message;
+      yield event as PipelineEvent;
+      if (event.type === "done" || event.type === "blocked") return;
+    }
+  } finally {
+    signal.removeEventListener("abort", cancel);
+    ws.close();
+  }
+}
@@ -0,0 +1,14 @@
+import type { PlannerName } from "@shared/pipeline";
+
+export type PlannerInfo = {
+  planners: PlannerName[];
+  default: PlannerName;
+  // The LLM the server plans with, when one is configured.
+  model: string | null;
+};
+
+export async function fetchPlannerInfo(): Promise<PlannerInfo> {
+  const res = await fetch("/api/planner", { credentials: "include" });
+  if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+  return (await res.json()) as PlannerInfo;
+}
@@ -0,0 +1,122 @@
+import type { ChatMessage, Dataset, PlanVersion, Project, ProjectSnapshot } from "@shared/schema";
+import type { GuardrailPolicy, PipelineMode, UIModel } from "@shared/pipeline";
+import { CLIENT_ID_HEADER } from "@shared/session";
+import { apiRequest } from "./queryClient";
+
+const PROJECT_KEY = "ui-studio.projectId";
+
+// Set once the project session welcomes us; writes carry it so the server
+// attributes them to us and does not echo them back.
+let sessionClientId: string | null = null;
+
+export function setSessionClientId(clientId: string | null) {
+  sessionClientId = clientId;
+}
+
+function sessionHeaders(): Record<string, string> {
+  return sessionClientId ? { [CLIENT_ID_HEADER]: sessionClientId } : {};
+}
+
+export type VersionMeta = {
+  id: string;
+  parentId: string | null;
+  prompt: string;
+  mode: PipelineMode;
+};
+
+// Opens the project a link points to (see projectLink), else the one this
+// browser last worked on, else starts a new one.
+export async function loadOrCreateProject(name: string): Promise<ProjectSnapshot> {
+  const linkedId = new URLSearchParams(window.location.search).get("project");
+  const savedId = linkedId ?? window.localStorage.getItem(PROJECT_KEY);
+  if (savedId) {
+    const res = await fetch(`/api/projects/${savedId}`, { credentials: "include" });
+    if (res.ok) {
+      window.localStorage.setItem(PROJECT_KEY, savedId);
+      return (await res.json()) as ProjectSnapshot;
+    }
+  }
+
+  const res = await apiRequest("POST", "/api/projects", { name });
+  const project = (await res.json()) as Project;
+  window.localStorage.setItem(PROJECT_KEY, project.id);
+  return { project, versions: [], messages: [], datasets: [] };
+}
+
+export async function fetchProject(projectId: string): Promise<ProjectSnapshot> {
+  const res = await apiRequest("GET", `/api/projects/${projectId}`);
+  return (await res.json()) as ProjectSnapshot;
+}
+
+// A link that opens this project, and so joins its session.
+export function projectLink(projectId: string): string {
+  const url = new URL(window.location.href);
+  url.search = new URLSearchParams({ project: projectId }).toString();
+  return url.toString();
+}
+
+// The server derives the version's code and explanation from the plan.
+export async function saveVersion(projectId: string, meta: VersionMeta, model: UIModel): Promise<PlanVersion> {
+  const { id, parentId, prompt, mode } = meta;
+  const res = await apiRequest(
+    "POST",
+    `/api/projects/${projectId}/versions`,
+    { id, parentId, prompt, mode, plan: model.plan },
+    sessionHeaders(),
+  );
+  return (await res.json()) as PlanVersion;
+}
+
+export async function saveMessage(
+  projectId: string,
+  message: Pick<ChatMessage, "id" | "role" | "content"> & { author?: string | null },
+): Promise<ChatMessage> {
+  const res = await apiRequest("POST", `/api/projects/${projectId}/messages`, message, sessionHeaders());
+  return (await res.json()) as ChatMessage;
+}
+
+export type CurrentVersionMove = { moved: boolean; project: Project };
+
+// Moves the project to `versionId`. Given `expected`, the move only happens
+// if the project is still there; otherwise `moved` is false and `project`
+// shows where someone else moved it.
+export async function setCurrentVersion(
+  projectId: string,
+  versionId: string,
+  expected?: string | null,
+): Promise<CurrentVersionMove> {
+  const res = await fetch(`/api/projects/${projectId}/current-version`, {
+    method: "PUT",
+    headers: { ...sessionHeaders(), "Content-Type": "application/json" },
+    body: JSON.stringify({ versionId, expected }),
+    credentials: "include",
+  });
+  const body = (await res.json().catch(() => ({}))) as { message?: string; project?: Project };
+  if (res.status === 409 && body.project) return { moved: false, project: body.project };
+  if (!res.ok) throw new Error(body.message ?? `${res.status}: ${res.statusText}`);
+  return { moved: true, project: body as Project };
+}
+
+// `null` goes back to the default policy.
+export async function savePolicy(projectId: string, policy: GuardrailPolicy | null): Promise<Project> {
+  const res = await apiRequest("PATCH", `/api/projects/${projectId}`, { policy }, sessionHeaders());
+  return (await res.json()) as Project;
+}
+
+// Multipart upload, so it skips apiRequest's JSON body. The server answers
+// errors with { message }, which is surfaced as is.
+export async function uploadDataset(projectId: string, file: File): Promise<Dataset> {
+  const body = new FormData();
+  body.append("file", file);
+  const res = await fetch(`/api/projects/${projectId}/datasets`, {
+    method: "POST",
+    body,
+    headers: sessionHeaders(),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const { message } = (await res.json().catch(() => ({}))) as { message?: string };
+    throw new Error(message ?? `${res.status}: ${res.statusText}`);
+  }
+  return (await res.json()) as Dataset;
+}
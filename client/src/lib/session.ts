@@ -0,0 +1,78 @@
+import { PROJECT_SOCKET_PATH, type PeerActivity, type SessionEvent, type SessionRequest } from "@shared/session";
+import { setSessionClientId } from "./projects";
+
+const NAME_KEY = "ui-studio.name";
+const RECONNECT_MS = 2000;
+
+export type ProjectSession = {
+  setActivity(activity: PeerActivity): void;
+  leave(): void;
+};
+
+// The name shown to other session members; picked once per browser.
+export function sessionName(): string {
+  let name = window.localStorage.getItem(NAME_KEY);
+  if (!name) {
+    name = `Guest ${Math.random().toString(16).slice(2, 6)}`;
+    window.localStorage.setItem(NAME_KEY, name);
+  }
+  return name;
+}
+
+// Joins the project's session and passes on what the server sends,
+// reconnecting after a dropped connection. Writes made while connected carry
+// our client id; `onEvent` gets a fresh "welcome" after each reconnect, and
+// `onRejoin` runs after it, since changes broadcast while we were away are
+// not replayed.
+export function joinSession(
+  projectId: string,
+  name: string,
+  onEvent: (event: SessionEvent) => void,
+  onRejoin: () => void,
+): ProjectSession {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const query = new URLSearchParams({ projectId, name });
+  const url = `${protocol}//${window.location.host}${PROJECT_SOCKET_PATH}?${query}`;
+  let ws: WebSocket;
+  let activity: PeerActivity = { kind: "idle" };
+  let left = false;
+  let joined = false;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+
+  const send = (request: SessionRequest) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(request));
+  };
+
+  const connect = () => {
+    ws = new WebSocket(url);
+    ws.onmessage = (e) => {
+      const event = JSON.parse(String(e.data)) as SessionEvent;
+      if (event.type === "welcome") {
+        setSessionClientId(event.clientId);
+        if (activity.kind !== "idle") send({ type: "activity", activity });
+      }
+      onEvent(event);
+      if (event.type !== "welcome") return;
+      if (joined) onRejoin();
+      joined = true;
+    };
+    ws.onclose = (e) => {
+      // 4404: the project is gone, so there is nothing to rejoin.
+      if (!left && e.code !== 4404) retry = setTimeout(connect, RECONNECT_MS);
+    };
+  };
+  connect();
+
+  return {
+    setActivity(next) {
+      activity = next;
+      send({ type: "activity", activity });
+    },
+    leave() {
+      left = true;
+      clearTimeout(retry);
+      setSessionClientId(null);
+      ws.close();
+    },
+  };
+}
@@ -2,4 +2,7 @@ import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
 
+// Each module in ./plugins registers its components before the app renders.
+import.meta.glob("./plugins/*.{ts,tsx}", { eager: true });
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,4 +1,4 @@
-import React, { useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -6,23 +6,76 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ToastAction } from "@/components/ui/toast";
+import { PreviewDatasets, renderInstance, renderNodes } from "@/components/preview-renderers";
+import { GuardrailsPanel, IssueList } from "@/components/guardrails-panel";
+import { IntentHighlight } from "@/components/intent-highlight";
+import { PolicyDialog } from "@/components/policy-dialog";
+import { CompareDialog } from "@/components/version-compare";
 import { cn } from "@/lib/utils";
+import { toast } from "@/hooks/use-toast";
+import { downloadProjectArchive } from "@/lib/export";
+import { streamServerPipeline } from "@/lib/pipeline-socket";
+import { fetchPlannerInfo, type PlannerInfo } from "@/lib/planner";
+import {
+  fetchProject,
+  loadOrCreateProject,
+  projectLink,
+  saveMessage,
+  savePolicy,
+  saveVersion,
+  setCurrentVersion,
+  uploadDataset,
+  type VersionMeta,
+} from "@/lib/projects";
+import { joinSession, sessionName, type ProjectSession } from "@/lib/session";
+import type { ChatMessage as SavedMessage, PlanVersion, Project, ProjectSnapshot } from "@shared/schema";
+import type { Peer, SessionEvent } from "@shared/session";
+import { flattenVersionTree, versionLineage } from "@shared/version-tree";
+import {
+  ALLOWED_COMPONENTS,
+  bindDataset,
+  buildModel,
+  clampText,
+  DEFAULT_POLICY,
+  describePolicy,
+  MAX_REPAIR_ATTEMPTS,
+  planner,
+  rulePlanner,
+  streamPipeline,
+  upgradePlan,
+  validatePlan,
+  type ComponentInstance,
+  type DatasetData,
+  type GuardrailPolicy,
+  type PipelineMode,
+  type PipelineEvent,
+  type PlannerName,
+  type UIModel,
+  type UIPlan,
+  type ValidationIssue,
+} from "@shared/pipeline";
 import {
   ArrowLeft,
   ArrowRight,
   Bot,
   Code2,
+  Download,
   Eye,
   FileClock,
+  FileUp,
   RefreshCcw,
   RotateCcw,
   ShieldCheck,
   Sparkles,
+  Users,
   Wand2,
+  X,
 } from "lucide-react";
 
 type Role = "user" | "assistant";
@@ -31,48 +84,17 @@ type ChatMessage = {
   id: string;
   role: Role;
   content: string;
+  // Who sent a user message, when it came from a session member.
+  author?: string | null;
   ts: number;
 };
 
-type UIPlan = {
-  layout: "dashboard" | "landing" | "settings";
-  tone: "minimal" | "bold" | "playful" | "enterprise";
-  components: Array<
-    | "AppShell"
-    | "TopNav"
-    | "Sidebar"
-    | "KPIGrid"
-    | "LineChartCard"
-    | "BarChartCard"
-    | "DataTable"
-    | "SettingsModal"
-    | "EmptyState"
-  >;
-  content: {
-    title: string;
-    subtitle?: string;
-    kpis?: Array<{ label: string; value: string; delta?: string }>;
-    table?: { columns: string[]; rows: string[][] };
-  };
-};
-
-type UIModel = {
-  plan: UIPlan;
-  code: string;
-  explanation: string;
+type VersionEntry = VersionMeta & {
+  model: UIModel;
+  ts: number;
 };
 
-const ALLOWED_COMPONENTS = new Set<string>([
-  "AppShell",
-  "TopNav",
-  "Sidebar",
-  "KPIGrid",
-  "LineChartCard",
-  "BarChartCard",
-  "DataTable",
-  "SettingsModal",
-  "EmptyState",
-]);
+const INITIAL_PROMPT = "Create a dashboard with a sidebar, charts, and a table. Make it minimal.";
 
 function uid(prefix: string) {
   return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
@@ -82,163 +104,67 @@ function now() {
   return Date.now();
 }
 
-function clampText(s: string, max = 5000) {
-  return s.length > max ? s.slice(0, max) + "…" : s;
+function toChatMessage(m: SavedMessage): ChatMessage {
+  return { id: m.id, role: m.role, content: m.content, author: m.author, ts: new Date(m.createdAt).getTime() };
 }
 
-function validatePlan(plan: UIPlan): { ok: true } | { ok: false; error: string } {
-  if (!plan?.layout || !plan.tone) return { ok: false, error: "Plan missing layout/tone." };
-  if (!Array.isArray(plan.components) || plan.components.length === 0)
-    return { ok: false, error: "Plan needs at least one component." };
-  for (const c of plan.components) {
-    if (!ALLOWED_COMPONENTS.has(c)) return { ok: false, error: `Component not allowed: ${c}` };
-  }
-  if (!plan.content?.title) return { ok: false, error: "Plan missing title." };
-  return { ok: true };
-}
-
-function planner(userText: string, prev?: UIPlan): UIPlan {
-  const t = userText.toLowerCase();
-
-  const wantDashboard = /dashboard|kpi|analytics|chart|table|sidebar/.test(t);
-  const wantSettings = /settings|preferences|modal/.test(t);
-  const wantLanding = /landing|hero|marketing|pricing/.test(t);
-
-  const tone: UIPlan["tone"] = /minimal|clean|simple/.test(t)
-    ? "minimal"
-    : /playful|fun|bright/.test(t)
-      ? "playful"
-      : /enterprise|professional|corporate/.test(t)
-        ? "enterprise"
-        : "bold";
-
-  const layout: UIPlan["layout"] = wantLanding ? "landing" : wantSettings ? "settings" : "dashboard";
-
-  const base: UIPlan = {
-    layout,
-    tone,
-    components: ["AppShell", "TopNav"],
-    content: {
-      title: "Deterministic UI Builder",
-      subtitle: "Planner → Generator → Explainer (fixed components, safe output).",
-      kpis: [
-        { label: "Iterations", value: "7", delta: "+2" },
-        { label: "Latency", value: "820ms", delta: "-12%" },
-        { label: "Coverage", value: "92%", delta: "+4%" },
-        { label: "Risk", value: "Low", delta: "Stable" },
-      ],
-      table: {
-        columns: ["Component", "Purpose", "Status"],
-        rows: [
-          ["Sidebar", "Navigation", "Allowed"],
-          ["DataTable", "Structured data", "Allowed"],
-          ["SettingsModal", "Safe edits", "Allowed"],
-          ["Custom CSS", "Determinism", "Blocked"],
-        ],
-      },
-    },
+function toVersionEntry(v: PlanVersion): VersionEntry {
+  return {
+    id: v.id,
+    parentId: v.parentId,
+    prompt: v.prompt,
+    mode: v.mode,
+    model: { plan: upgradePlan(v.plan) as UIPlan, code: v.code, explanation: v.explanation },
+    ts: new Date(v.createdAt).getTime(),
   };
-
-  const plan = prev ? structuredClone(prev) : base;
-  plan.layout = layout;
-  plan.tone = tone;
-
-  const next = new Set(plan.components);
-
-  if (wantDashboard || /chart|table|sidebar/.test(t)) {
-    next.add("Sidebar");
-    next.add("KPIGrid");
-    next.add("LineChartCard");
-    next.add("DataTable");
-  }
-
-  if (/bar chart|bars|revenue|sales/.test(t)) {
-    next.add("BarChartCard");
-  }
-
-  if (wantSettings) {
-    next.add("SettingsModal");
-  }
-
-  if (/empty|no data|blank/.test(t)) {
-    next.add("EmptyState");
-  }
-
-  if (/(title:|name:)/.test(t)) {
-    const m = userText.match(/(?:title:|name:)\s*(.+)$/i);
-    if (m?.[1]) plan.content.title = clampText(m[1].trim(), 80);
-  }
-
-  plan.components = Array.from(next) as UIPlan["components"];
-
-  if (plan.layout === "landing") {
-    plan.content.subtitle = "Describe a UI in chat, and watch it render deterministically.";
-    plan.content.kpis = undefined;
-    plan.content.table = {
-      columns: ["Feature", "Why it matters"],
-      rows: [
-        ["Fixed components", "Consistent visuals + controllable output"],
-        ["Planner/Generator/Explainer", "Traceable, explainable changes"],
-        ["Rollback", "Fast iteration without fear"],
-      ],
-    };
-    plan.components = ["AppShell", "TopNav", "DataTable"];
-  }
-
-  if (plan.layout === "settings") {
-    plan.content.subtitle = "Ship safe customization without letting the model freestyle UI.";
-    next.add("SettingsModal");
-    next.add("DataTable");
-    plan.components = Array.from(next) as UIPlan["components"];
-  }
-
-  return plan;
 }
 
-function generator(plan: UIPlan): { code: string } {
-  const chosen = plan.components;
-  const lines: string[] = [];
-  lines.push(`// Generated deterministically from the plan`);
-  lines.push(`const plan = ${JSON.stringify(plan, null, 2)};`);
-  lines.push("");
-  lines.push("<AppShell>");
-  if (chosen.includes("TopNav")) lines.push("  <TopNav title={plan.content.title} subtitle={plan.content.subtitle} />");
-  lines.push("  <main>");
-  if (chosen.includes("Sidebar")) lines.push("    <Sidebar />");
-  lines.push("    <section>");
-  if (chosen.includes("KPIGrid")) lines.push("      <KPIGrid items={plan.content.kpis} />");
-  if (chosen.includes("LineChartCard")) lines.push("      <LineChartCard />");
-  if (chosen.includes("BarChartCard")) lines.push("      <BarChartCard />");
-  if (chosen.includes("DataTable"))
-    lines.push("      <DataTable columns={plan.content.table?.columns} rows={plan.content.table?.rows} />");
-  if (chosen.includes("EmptyState")) lines.push("      <EmptyState />");
-  if (chosen.includes("SettingsModal")) lines.push("      <SettingsModal />");
-  lines.push("    </section>");
-  lines.push("  </main>");
-  lines.push("</AppShell>");
-
-  return { code: lines.join("\n") };
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .map((w) => w[0] ?? "")
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
 }
 
-function explainer(plan: UIPlan): string {
-  const parts: string[] = [];
-  parts.push(`Layout: ${plan.layout}. Tone: ${plan.tone}.`);
-
-  if (plan.components.includes("Sidebar")) {
-    parts.push("Sidebar was selected for predictable navigation structure.");
-  }
-  if (plan.components.includes("KPIGrid")) {
-    parts.push("KPI grid surfaces key metrics at a glance without custom styling.");
-  }
-  if (plan.components.includes("DataTable")) {
-    parts.push("Table is used for structured information and deterministic rendering.");
-  }
-  if (plan.components.includes("SettingsModal")) {
-    parts.push("Settings modal enables iterative changes while keeping a strict component whitelist.");
-  }
+// Everyone in the project session, with a pulsing dot on whoever is running
+// the agent. Hidden while you are alone.
+function PresenceList({ peers, selfId }: { peers: Peer[]; selfId: string | null }) {
+  if (peers.length < 2) return null;
 
-  parts.push("All output is constrained to a fixed set of components for consistency and safety.");
-  return parts.join(" ");
+  return (
+    <div className="flex items-center -space-x-2" data-testid="list-presence">
+      {peers.map((p) => {
+        const running = p.activity.kind === "running" ? p.activity.prompt : null;
+        const you = p.clientId === selfId ? " (you)" : "";
+        const label = `${p.name}${you}${running ? ` — running “${running}”` : ""}`;
+        return (
+          <div
+            key={p.clientId}
+            className={cn(
+              "relative h-8 w-8 rounded-full ring-2 ring-background",
+              "grid place-items-center text-[11px] font-semibold text-white",
+            )}
+            style={{ backgroundColor: p.color }}
+            title={label}
+            aria-label={label}
+            data-testid={`avatar-peer-${p.clientId}`}
+          >
+            {initials(p.name)}
+            {running ? (
+              <span
+                className={cn(
+                  "absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full",
+                  "bg-primary ring-2 ring-background animate-pulse",
+                )}
+              />
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
 }
 
 function CodeBlock({ value }: { value: string }) {
@@ -261,173 +187,56 @@ function CodeBlock({ value }: { value: string }) {
 
 function PreviewMock({ model }: { model: UIModel }) {
   const plan = model.plan;
+  const { header, sidebar, main, footer } = plan.regions;
+  const shell: ComponentInstance = plan.components.find((c) => c.type === "AppShell") ?? {
+    id: "appshell",
+    type: "AppShell",
+    props: {},
+  };
 
-  const toneClasses =
-    plan.tone === "minimal"
-      ? "bg-white/70"
-      : plan.tone === "enterprise"
-        ? "bg-white/60"
-        : plan.tone === "playful"
-          ? "bg-white/65"
-          : "bg-white/60";
-
-  return (
-    <div
-      className={cn("rounded-2xl ui-surface ui-inset-ring overflow-hidden", "min-h-[520px]")}
-      data-testid="preview-root"
-    >
-      <div className={cn("p-4 border-b", toneClasses)}>
-        <div className="flex items-start justify-between gap-3">
-          <div>
-            <div className="ui-title text-lg" data-testid="text-preview-title">
-              {plan.content.title}
-            </div>
-            {plan.content.subtitle ? (
-              <div className="text-sm text-muted-foreground" data-testid="text-preview-subtitle">
-                {plan.content.subtitle}
-              </div>
-            ) : null}
-          </div>
-          <div className="flex items-center gap-2">
-            <Badge variant="secondary" data-testid="badge-layout">
-              {plan.layout}
-            </Badge>
-            <Badge variant="outline" data-testid="badge-tone">
-              {plan.tone}
-            </Badge>
-          </div>
-        </div>
-      </div>
+  return renderInstance(
+    plan,
+    shell,
+    <>
+      {renderNodes(plan, header)}
 
       <div className="grid grid-cols-12">
-        {plan.components.includes("Sidebar") ? (
-          <div className="col-span-12 md:col-span-3 border-r p-3" data-testid="panel-sidebar">
-            <div className="text-xs text-muted-foreground mb-2">Navigation</div>
-            <div className="space-y-1">
-              {["Overview", "Reports", "Alerts", "Settings"].map((x) => (
-                <button
-                  key={x}
-                  className={cn(
-                    "w-full text-left rounded-lg px-3 py-2 text-sm",
-                    "hover:bg-muted transition-colors",
-                  )}
-                  data-testid={`button-nav-${x.toLowerCase()}`}
-                >
-                  {x}
-                </button>
-              ))}
-            </div>
+        {sidebar.length ? (
+          <div className="col-span-12 md:col-span-3 border-r" data-testid="region-sidebar">
+            {renderNodes(plan, sidebar)}
           </div>
         ) : null}
 
         <div
-          className={cn(
-            plan.components.includes("Sidebar") ? "col-span-12 md:col-span-9" : "col-span-12",
-            "p-4",
-          )}
+          className={cn(sidebar.length ? "col-span-12 md:col-span-9" : "col-span-12", "p-4 space-y-4")}
           data-testid="panel-main"
         >
-          {plan.components.includes("KPIGrid") && plan.content.kpis ? (
-            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-4" data-testid="grid-kpis">
-              {plan.content.kpis.map((k, idx) => (
-                <div
-                  key={k.label}
-                  className="rounded-xl ui-inset-ring bg-card/70 p-3"
-                  data-testid={`card-kpi-${idx}`}
-                >
-                  <div className="text-xs text-muted-foreground" data-testid={`text-kpi-label-${idx}`}>
-                    {k.label}
-                  </div>
-                  <div className="text-lg font-semibold" data-testid={`text-kpi-value-${idx}`}>
-                    {k.value}
-                  </div>
-                  {k.delta ? (
-                    <div className="text-xs text-muted-foreground" data-testid={`text-kpi-delta-${idx}`}>
-                      {k.delta}
-                    </div>
-                  ) : null}
-                </div>
-              ))}
-            </div>
-          ) : null}
-
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 mb-4" data-testid="grid-charts">
-            {plan.components.includes("LineChartCard") ? (
-              <div className="rounded-xl ui-inset-ring bg-card/70 p-3" data-testid="card-line-chart">
-                <div className="text-sm font-medium mb-2">Trend</div>
-                <div className="h-36 rounded-lg bg-gradient-to-b from-primary/15 to-transparent" />
-              </div>
-            ) : null}
-            {plan.components.includes("BarChartCard") ? (
-              <div className="rounded-xl ui-inset-ring bg-card/70 p-3" data-testid="card-bar-chart">
-                <div className="text-sm font-medium mb-2">Breakdown</div>
-                <div className="h-36 rounded-lg bg-gradient-to-b from-accent/35 to-transparent" />
-              </div>
-            ) : null}
-          </div>
-
-          {plan.components.includes("DataTable") && plan.content.table ? (
-            <div className="rounded-xl ui-inset-ring bg-card/70 p-3" data-testid="card-table">
-              <div className="flex items-center justify-between mb-3">
-                <div className="text-sm font-medium">Spec</div>
-                <Badge variant="secondary" data-testid="badge-safe">
-                  whitelist
-                </Badge>
-              </div>
-              <div className="overflow-auto">
-                <Table data-testid="table-preview">
-                  <TableHeader>
-                    <TableRow>
-                      {plan.content.table.columns.map((c, i) => (
-                        <TableHead key={c} data-testid={`th-${i}`}>
-                          {c}
-                        </TableHead>
-                      ))}
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {plan.content.table.rows.map((r, ri) => (
-                      <TableRow key={ri} data-testid={`tr-${ri}`}>
-                        {r.map((cell, ci) => (
-                          <TableCell key={ci} data-testid={`td-${ri}-${ci}`}>
-                            {cell}
-                          </TableCell>
-                        ))}
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-            </div>
-          ) : null}
-
-          {plan.components.includes("EmptyState") ? (
-            <div className="mt-4 rounded-xl ui-inset-ring bg-card/60 p-6 text-center" data-testid="empty-state">
-              <div className="ui-title text-xl">No data yet</div>
-              <div className="text-sm text-muted-foreground mt-1">Ask for a table or metrics in chat.</div>
-            </div>
-          ) : null}
-
-          {plan.components.includes("SettingsModal") ? (
-            <div className="mt-4" data-testid="settings-inline">
-              <Button variant="secondary" data-testid="button-open-settings">
-                Open settings (mock)
-              </Button>
-            </div>
-          ) : null}
+          {renderNodes(plan, main)}
         </div>
       </div>
-    </div>
+
+      {footer.length ? (
+        <div className="p-4 border-t space-y-4" data-testid="region-footer">
+          {renderNodes(plan, footer)}
+        </div>
+      ) : null}
+    </>,
   );
 }
 
 function VersionDialog({
   versions,
-  onRestore,
+  currentId,
+  onCheckout,
 }: {
-  versions: Array<{ id: string; label: string; ts: number }>;
-  onRestore: (id: string) => void;
+  versions: VersionEntry[];
+  currentId: string | null;
+  onCheckout: (id: string) => void;
 }) {
+  const rows = flattenVersionTree(versions);
+  const lineage = versionLineage(versions, currentId);
+  const numberOf = new Map(versions.map((v, i) => [v.id, i + 1]));
+
   return (
     <Dialog>
       <DialogTrigger asChild>
@@ -438,40 +247,61 @@ function VersionDialog({
       </DialogTrigger>
       <DialogContent className="max-w-xl" data-testid="dialog-versions">
         <DialogHeader>
-          <DialogTitle>Rollback</DialogTitle>
+          <DialogTitle>Version tree</DialogTitle>
         </DialogHeader>
-        <div className="text-sm text-muted-foreground">Restore a previous generated version.</div>
+        <div className="text-sm text-muted-foreground">
+          Check out any version; the next Generate or Modify run branches from it.
+        </div>
         <Separator className="my-3" />
         <div className="space-y-2 max-h-[50vh] overflow-auto" data-testid="list-versions">
-          {versions.length === 0 ? (
+          {rows.length === 0 ? (
             <div className="text-sm text-muted-foreground">No versions yet.</div>
           ) : (
-            versions
-              .slice()
-              .reverse()
-              .map((v) => (
+            rows.map(({ version: v, depth, childCount, isBranch }) => (
+              <div key={v.id} className="flex items-stretch" style={{ paddingLeft: depth * 16 }}>
+                {depth > 0 ? (
+                  <div
+                    className={cn("mr-2 w-3 border-l-2", lineage.has(v.id) ? "border-primary" : "border-muted")}
+                    aria-hidden="true"
+                  />
+                ) : null}
                 <button
-                  key={v.id}
                   className={cn(
-                    "w-full text-left rounded-xl p-3 ui-inset-ring",
+                    "flex-1 text-left rounded-xl p-3 ui-inset-ring",
                     "hover:bg-muted/60 transition-colors",
+                    v.id === currentId ? "bg-primary/8" : "",
                   )}
-                  onClick={() => onRestore(v.id)}
+                  onClick={() => onCheckout(v.id)}
                   data-testid={`button-restore-${v.id}`}
                 >
                   <div className="flex items-center justify-between gap-3">
-                    <div>
+                    <div className="min-w-0">
                       <div className="font-medium" data-testid={`text-version-label-${v.id}`}>
-                        {v.label}
+                        #{numberOf.get(v.id)} {v.model.plan.layout} • {v.model.plan.tone} •{" "}
+                        {v.model.plan.components.length} components
+                      </div>
+                      <div
+                        className="text-xs text-muted-foreground truncate"
+                        title={v.prompt}
+                        data-testid={`text-version-prompt-${v.id}`}
+                      >
+                        {v.prompt || "—"}
                       </div>
                       <div className="text-xs text-muted-foreground" data-testid={`text-version-ts-${v.id}`}>
                         {new Date(v.ts).toLocaleString()}
+                        {v.parentId && numberOf.has(v.parentId) ? ` • from #${numberOf.get(v.parentId)}` : ""}
                       </div>
                     </div>
-                    <Badge variant="outline">Restore</Badge>
+                    <div className="flex flex-col items-end gap-1 shrink-0">
+                      <Badge variant="secondary">{v.mode}</Badge>
+                      {isBranch ? <Badge variant="outline">branch</Badge> : null}
+                      {childCount > 1 ? <Badge variant="outline">{childCount} branches</Badge> : null}
+                      {v.id === currentId ? <Badge>current</Badge> : <Badge variant="outline">Check out</Badge>}
+                    </div>
                   </div>
                 </button>
-              ))
+              </div>
+            ))
           )}
         </div>
       </DialogContent>
@@ -497,7 +327,7 @@ export default function UIStudio() {
   );
 
   const initialPlan = useMemo<UIPlan>(
-    () => planner("Create a dashboard with a sidebar, charts, and a table. Make it minimal.", undefined),
+    () => planner(INITIAL_PROMPT, undefined),
     [],
   );
 
@@ -505,18 +335,111 @@ export default function UIStudio() {
     const plan = initialPlan;
     const validation = validatePlan(plan);
     const safePlan = validation.ok ? plan : planner("Create a dashboard", undefined);
-    const code = generator(safePlan).code;
-    const explanation = explainer(safePlan);
-    return { plan: safePlan, code, explanation };
+    return buildModel(safePlan);
   });
 
-  const [versions, setVersions] = useState<UIModel[]>([{ ...model }]);
-  const [error, setError] = useState<string | null>(null);
+  const [versions, setVersions] = useState<VersionEntry[]>(() => [
+    { id: uid("v"), parentId: null, prompt: INITIAL_PROMPT, mode: "generate", model, ts: now() },
+  ]);
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(() => versions[0]?.id ?? null);
+  // Why the last run was blocked, with every issue validatePlan reported.
+  const [error, setError] = useState<{ message: string; issues: ValidationIssue[] } | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [datasets, setDatasets] = useState<ReadonlyMap<string, DatasetData>>(() => new Map());
+  const [uploading, setUploading] = useState(false);
+  const [policy, setPolicy] = useState<GuardrailPolicy>(DEFAULT_POLICY);
+  // The rule planner runs in the browser; the LLM planner only on the server.
+  const [plannerInfo, setPlannerInfo] = useState<PlannerInfo | null>(null);
+  const [plannerName, setPlannerName] = useState<PlannerName>("rules");
+  // The run in progress, and the code it has streamed so far.
+  const [running, setRunning] = useState(false);
+  const [streamingCode, setStreamingCode] = useState<string | null>(null);
+  const runRef = useRef<AbortController | null>(null);
+  // Blocked plans go through up to MAX_REPAIR_ATTEMPTS repair rounds first.
+  const [autoRepair, setAutoRepair] = useState(true);
+  // The project session: who else is here, and which of them is us.
+  const [myName] = useState(sessionName);
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const [selfId, setSelfId] = useState<string | null>(null);
+  const sessionRef = useRef<ProjectSession | null>(null);
 
   const chatViewportRef = useRef<HTMLDivElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const projectIdRef = useRef<string | null>(null);
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Writes are chained so the server sees messages and versions in the order they happened.
+  function persist(task: (projectId: string) => Promise<unknown>) {
+    const projectId = projectIdRef.current;
+    if (!projectId) return;
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => task(projectId))
+      .catch((err: Error) => {
+        toast({ title: "Could not save project", description: err.message, variant: "destructive" });
+      });
+  }
 
-  function pushMessage(role: Role, content: string) {
-    setMessages((m) => [...m, { id: uid("m"), role, content: clampText(content, 3000), ts: now() }]);
+  useEffect(() => {
+    let cancelled = false;
+
+    loadOrCreateProject("Untitled UI")
+      .then((snapshot) => {
+        if (cancelled) return;
+        projectIdRef.current = snapshot.project.id;
+        sessionRef.current = joinSession(snapshot.project.id, myName, applySessionEvent, () =>
+          fetchProject(snapshot.project.id)
+            .then(mergeSnapshot)
+            .catch((err: Error) => {
+              toast({ title: "Could not reload project", description: err.message, variant: "destructive" });
+            }),
+        );
+        setDatasets(new Map(snapshot.datasets.map((d) => [d.id, d])));
+        setPolicy(snapshot.project.policy ?? DEFAULT_POLICY);
+
+        if (snapshot.versions.length === 0) {
+          // Fresh project: seed it with what the page already shows.
+          for (const m of messages) persist((id) => saveMessage(id, m));
+          for (const v of versions) persist((id) => saveVersion(id, v, v.model));
+          const current = versions[versions.length - 1];
+          if (current) persist((id) => setCurrentVersion(id, current.id));
+          return;
+        }
+
+        const restored = snapshot.versions.map(toVersionEntry);
+        const current =
+          restored.find((v) => v.id === snapshot.project.currentVersionId) ?? restored[restored.length - 1];
+
+        setVersions(restored);
+        setCurrentVersionId(current.id);
+        setModel(current.model);
+        if (snapshot.messages.length > 0) setMessages(snapshot.messages.map(toChatMessage));
+      })
+      .catch((err: Error) => {
+        toast({ title: "Could not load project", description: err.message, variant: "destructive" });
+      });
+
+    return () => {
+      cancelled = true;
+      sessionRef.current?.leave();
+      sessionRef.current = null;
+    };
+    // Runs once: the initial state is what gets seeded into a new project.
+  }, []);
+
+  // Keeps the preview on the current version, including when a session
+  // member moves the project and the version arrives after the move.
+  useEffect(() => {
+    const current = versions.find((v) => v.id === currentVersionId);
+    if (current) setModel(current.model);
+  }, [versions, currentVersionId]);
+
+  useEffect(() => {
+    fetchPlannerInfo()
+      .then(setPlannerInfo)
+      .catch(() => setPlannerInfo(null));
+  }, []);
+
+  function scrollChat() {
     setTimeout(() => {
       const el = chatViewportRef.current;
       if (!el) return;
@@ -524,50 +447,265 @@ export default function UIStudio() {
     }, 50);
   }
 
-  function runAgent(userText: string, mode: "generate" | "modify") {
-    setError(null);
+  function pushMessage(role: Role, content: string) {
+    const message: ChatMessage = {
+      id: uid("m"),
+      role,
+      content: clampText(content, 3000),
+      author: role === "user" ? myName : null,
+      ts: now(),
+    };
+    setMessages((m) => [...m, message]);
+    persist((id) => saveMessage(id, message));
+    scrollChat();
+  }
 
-    const nextPlan = planner(userText, mode === "modify" ? model.plan : undefined);
-    const validation = validatePlan(nextPlan);
-    if (!validation.ok) {
-      setError(validation.error);
-      pushMessage("assistant", `Blocked: ${validation.error}`);
-      return;
+  // Catches up after a reconnect on what session members saved while we were
+  // away. Like applySessionEvent it only goes through state setters, and it
+  // keeps what we already have.
+  function mergeSnapshot(snapshot: ProjectSnapshot) {
+    const saved = snapshot.versions.map(toVersionEntry);
+    const said = snapshot.messages.map(toChatMessage);
+    setVersions((all) => [...all, ...saved.filter((v) => !all.some((a) => a.id === v.id))]);
+    setMessages((all) => [...all, ...said.filter((m) => !all.some((a) => a.id === m.id))]);
+    setDatasets((all) => {
+      const next = new Map(all);
+      for (const d of snapshot.datasets) next.set(d.id, d);
+      return next;
+    });
+    setPolicy(snapshot.project.policy ?? DEFAULT_POLICY);
+    if (snapshot.project.currentVersionId) setCurrentVersionId(snapshot.project.currentVersionId);
+  }
+
+  // Changes other session members saved. Bound once when the session is
+  // joined, so it only goes through state setters. Our own writes are never
+  // echoed back, but the same id is ignored anyway.
+  function applySessionEvent(event: SessionEvent) {
+    switch (event.type) {
+      case "welcome":
+        setSelfId(event.clientId);
+        setPeers(event.peers);
+        break;
+      case "presence":
+        setPeers(event.peers);
+        break;
+      case "message": {
+        const message = toChatMessage(event.message);
+        setMessages((all) => (all.some((m) => m.id === message.id) ? all : [...all, message]));
+        scrollChat();
+        break;
+      }
+      case "version": {
+        const entry = toVersionEntry(event.version);
+        setVersions((all) => (all.some((v) => v.id === entry.id) ? all : [...all, entry]));
+        break;
+      }
+      case "project":
+        setPolicy(event.project.policy ?? DEFAULT_POLICY);
+        if (event.project.currentVersionId) setCurrentVersionId(event.project.currentVersionId);
+        break;
+      case "dataset":
+        setDatasets((all) => new Map(all).set(event.dataset.id, event.dataset));
+        break;
     }
+  }
+
+  // The chat and Code tab fill in as the pipeline reports each stage, and
+  // Cancel stops the run. LLM runs stream from the server; rule runs stay in
+  // the browser.
+  async function runAgent(userText: string, mode: PipelineMode) {
+    setError(null);
+    const prev = mode === "modify" ? model.plan : undefined;
+    setRunning(true);
+    const controller = new AbortController();
+    runRef.current = controller;
+    sessionRef.current?.setActivity({ kind: "running", prompt: clampText(userText, 120) });
+
+    const onEvent = (event: PipelineEvent) => {
+      switch (event.type) {
+        case "planning":
+          if (event.planner === "llm") pushMessage("assistant", "Planning with the LLM…");
+          break;
+        case "plan": {
+          const { plan, planner: report } = event;
+          if (report.fallback) {
+            pushMessage("assistant", `LLM plan rejected (${report.fallback.reason}); used the rule planner instead.`);
+          }
+          pushMessage(
+            "assistant",
+            `Plan: ${plan.layout} • tone: ${plan.tone} • components: ${plan.components.map((c) => c.type).join(", ")}`,
+          );
+          break;
+        }
+        case "validation":
+          if (event.corrections.length > 0) {
+            pushMessage("assistant", `Auto-corrected:\n${event.corrections.map((c) => `• ${c}`).join("\n")}`);
+          }
+          break;
+        case "code":
+          setStreamingCode((code) => (code ?? "") + event.chunk);
+          break;
+        case "explanation":
+          pushMessage("assistant", event.text);
+          break;
+        case "done":
+          commitVersion(userText, mode, event.model);
+          break;
+        case "blocked":
+          setError({ message: event.error, issues: event.issues });
+          pushMessage("assistant", `Blocked: ${event.error}`);
+          break;
+      }
+    };
 
-    const nextCode = generator(nextPlan).code;
-    const nextExplanation = explainer(nextPlan);
+    const events =
+      plannerName === "llm"
+        ? streamServerPipeline(
+            { mode, prompt: userText, plan: model.plan, policy, planner: "llm", repair: autoRepair },
+            controller.signal,
+          )
+        : streamPipeline(
+            rulePlanner,
+            { prompt: userText, mode, prev, policy, signal: controller.signal },
+            autoRepair ? MAX_REPAIR_ATTEMPTS : 0,
+            datasets,
+          );
+    try {
+      for await (const event of events) onEvent(event);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        toast({ title: "Run failed", description: (err as Error).message, variant: "destructive" });
+      }
+    } finally {
+      if (controller.signal.aborted) pushMessage("assistant", "Cancelled.");
+      runRef.current = null;
+      sessionRef.current?.setActivity({ kind: "idle" });
+      setRunning(false);
+      setStreamingCode(null);
+    }
+  }
 
-    const nextModel: UIModel = {
-      plan: nextPlan,
-      code: nextCode,
-      explanation: nextExplanation,
+  function commitVersion(prompt: string, mode: PipelineMode, nextModel: UIModel) {
+    const entry: VersionEntry = {
+      id: uid("v"),
+      parentId: currentVersionId,
+      prompt,
+      mode,
+      model: nextModel,
+      ts: now(),
     };
 
     setModel(nextModel);
-    setVersions((v) => [...v, nextModel]);
+    setVersions((v) => [...v, entry]);
+    setCurrentVersionId(entry.id);
+    persist(async (id) => {
+      await saveVersion(id, entry, nextModel);
+      const { moved, project } = await setCurrentVersion(id, entry.id, entry.parentId);
+      if (!moved) settleConflict(entry, project);
+    });
+  }
 
-    pushMessage(
-      "assistant",
-      `Plan: ${nextPlan.layout} • tone: ${nextPlan.tone} • components: ${nextPlan.components.join(", ")}`,
-    );
-    pushMessage("assistant", nextExplanation);
+  // Someone moved the project while this version was being made from the
+  // one before. Their move stands and this version stays as a branch; "Use
+  // mine" checks it out over theirs.
+  function settleConflict(entry: VersionEntry, project: Project) {
+    if (project.currentVersionId) setCurrentVersionId(project.currentVersionId);
+    const useMine = () => {
+      setCurrentVersionId(entry.id);
+      persist((id) => setCurrentVersion(id, entry.id));
+      pushMessage("assistant", `Kept “${clampText(entry.prompt, 60)}” over the other change.`);
+    };
+    toast({
+      title: "Someone else changed the UI first",
+      description: "You are now on their version. Yours is kept as a branch in Versions.",
+      action: (
+        <ToastAction altText="Use my version instead" onClick={useMine} data-testid="button-use-mine">
+          Use mine
+        </ToastAction>
+      ),
+    });
   }
 
-  const versionItems = versions.map((v, idx) => ({
-    id: String(idx),
-    label: `${v.plan.layout} • ${v.plan.tone} • ${v.plan.components.length} components`,
-    ts: messages[0]?.ts + idx * 1000,
-  }));
+  // Stores the file as a project dataset, then binds the table and charts
+  // to it as a new version.
+  async function attachDataset(file: File) {
+    const projectId = projectIdRef.current;
+    if (!projectId) {
+      toast({ title: "Project is still loading", description: "Try the upload again in a moment." });
+      return;
+    }
 
-  function restoreByIndex(indexId: string) {
-    const idx = Number(indexId);
+    setError(null);
+    setUploading(true);
+    try {
+      const dataset = await uploadDataset(projectId, file);
+      setDatasets((all) => new Map(all).set(dataset.id, dataset));
+
+      const plan = bindDataset(model.plan, dataset);
+      const validation = validatePlan(plan, policy);
+      if (!validation.ok) {
+        setError({ message: validation.error, issues: validation.issues });
+        pushMessage("assistant", `Blocked: ${validation.error}`);
+        return;
+      }
+
+      const types = dataset.columns.map((c) => `${c.name} (${c.type})`).join(", ");
+      const label = `Uploaded ${dataset.name}`;
+      pushMessage("user", label);
+      const nextModel = buildModel(plan, model.plan, new Map(datasets).set(dataset.id, dataset));
+      commitVersion(label, "modify", nextModel);
+      pushMessage("assistant", `Read ${dataset.rows.length} rows: ${types}.`);
+      pushMessage("assistant", nextModel.explanation);
+    } catch (err) {
+      toast({ title: "Upload failed", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  function checkoutVersion(versionId: string) {
+    const idx = versions.findIndex((v) => v.id === versionId);
     const v = versions[idx];
     if (!v) return;
-    setModel(v);
-    pushMessage("assistant", `Restored version #${idx + 1}.`);
+    setCurrentVersionId(v.id);
+    persist((id) => setCurrentVersion(id, v.id));
+    pushMessage("assistant", `Checked out version #${idx + 1}. New runs will branch from here.`);
+  }
+
+  // Later runs are checked against the new policy; the current version is
+  // re-checked right away in the Guardrails panel.
+  async function updatePolicy(next: GuardrailPolicy | null) {
+    const projectId = projectIdRef.current;
+    if (!projectId) throw new Error("Project is still loading.");
+    const project = await savePolicy(projectId, next);
+    setPolicy(project.policy ?? DEFAULT_POLICY);
+    pushMessage("assistant", next ? "Guardrail policy updated." : "Guardrail policy reset to the default.");
+  }
+
+  async function copyInviteLink() {
+    const projectId = projectIdRef.current;
+    if (!projectId) return;
+    try {
+      await navigator.clipboard.writeText(projectLink(projectId));
+      toast({ title: "Invite link copied", description: "Anyone with the link joins this project's session." });
+    } catch (err) {
+      toast({ title: "Could not copy the link", description: (err as Error).message, variant: "destructive" });
+    }
+  }
+
+  async function exportProject() {
+    setExporting(true);
+    try {
+      await downloadProjectArchive(model.plan, policy);
+    } catch (err) {
+      toast({ title: "Export failed", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setExporting(false);
+    }
   }
 
+  const report = useMemo(() => validatePlan(model.plan, policy), [model.plan, policy]);
+
   const headerGlow =
     "bg-[radial-gradient(1200px_circle_at_20%_10%,hsl(var(--primary)/0.22),transparent_60%),radial-gradient(900px_circle_at_90%_20%,hsl(var(--chart-2)/0.16),transparent_55%)]";
 
@@ -599,6 +737,18 @@ export default function UIStudio() {
             </div>
 
             <div className="flex items-center gap-2">
+              <PresenceList peers={peers} selfId={selfId} />
+
+              <Button
+                variant="secondary"
+                className="gap-2"
+                onClick={() => copyInviteLink()}
+                data-testid="button-invite"
+              >
+                <Users className="h-4 w-4" />
+                Invite
+              </Button>
+
               <Button
                 variant="secondary"
                 className="gap-2"
@@ -609,7 +759,13 @@ export default function UIStudio() {
                 {theme === "light" ? "Dark" : "Light"}
               </Button>
 
-              <VersionDialog versions={versionItems} onRestore={(id) => restoreByIndex(id)} />
+              <CompareDialog versions={versions} currentId={currentVersionId} />
+
+              <VersionDialog
+                versions={versions}
+                currentId={currentVersionId}
+                onCheckout={(id) => checkoutVersion(id)}
+              />
             </div>
           </div>
 
@@ -640,10 +796,14 @@ export default function UIStudio() {
                         data-testid={`message-${m.role}-${i}`}
                       >
                         <div className="flex items-center justify-between gap-3">
-                          <div className="text-xs text-muted-foreground">{m.role === "user" ? "You" : "Agent"}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {m.role === "assistant" ? "Agent" : m.author && m.author !== myName ? m.author : "You"}
+                          </div>
                           <div className="text-[11px] text-muted-foreground">{new Date(m.ts).toLocaleTimeString()}</div>
                         </div>
-                        <div className="text-sm mt-2 whitespace-pre-wrap">{m.content}</div>
+                        <div className="text-sm mt-2 whitespace-pre-wrap">
+                          {m.role === "user" ? <IntentHighlight text={m.content} /> : m.content}
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -661,6 +821,7 @@ export default function UIStudio() {
                   <div className="flex flex-wrap items-center gap-2">
                     <Button
                       className="gap-2"
+                      disabled={running}
                       onClick={() => {
                         pushMessage("user", prompt);
                         runAgent(prompt, "generate");
@@ -668,12 +829,13 @@ export default function UIStudio() {
                       data-testid="button-generate"
                     >
                       <Wand2 className="h-4 w-4" />
-                      Generate UI
+                      {running ? "Running…" : "Generate UI"}
                     </Button>
 
                     <Button
                       variant="secondary"
                       className="gap-2"
+                      disabled={running}
                       onClick={() => {
                         pushMessage("user", prompt);
                         runAgent(prompt, "modify");
@@ -684,6 +846,41 @@ export default function UIStudio() {
                       Modify UI
                     </Button>
 
+                    {running ? (
+                      <Button
+                        variant="destructive"
+                        className="gap-2"
+                        onClick={() => runRef.current?.abort()}
+                        data-testid="button-cancel-run"
+                      >
+                        <X className="h-4 w-4" />
+                        Cancel
+                      </Button>
+                    ) : null}
+
+                    <Button
+                      variant="secondary"
+                      className="gap-2"
+                      disabled={uploading}
+                      onClick={() => fileInputRef.current?.click()}
+                      data-testid="button-upload-data"
+                    >
+                      <FileUp className="h-4 w-4" />
+                      {uploading ? "Uploading…" : "Upload data"}
+                    </Button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".csv,.tsv,.xlsx,.xls"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = "";
+                        if (file) attachDataset(file);
+                      }}
+                      data-testid="input-upload-data"
+                    />
+
                     <Button
                       variant="ghost"
                       className="gap-2"
@@ -695,16 +892,30 @@ export default function UIStudio() {
                       <RotateCcw className="h-4 w-4" />
                       Clear
                     </Button>
+
+                    {plannerInfo?.planners.includes("llm") ? (
+                      <Select value={plannerName} onValueChange={(v) => setPlannerName(v as PlannerName)}>
+                        <SelectTrigger className="ml-auto h-9 w-[150px]" data-testid="select-planner">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="rules">Rule planner</SelectItem>
+                          <SelectItem value="llm">LLM ({plannerInfo.model})</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : null}
                   </div>
 
                   {error ? (
-                    <div className="rounded-xl bg-destructive/10 text-destructive px-3 py-2 text-sm" data-testid="status-error">
-                      {error}
+                    <div className="rounded-xl bg-destructive/10 px-3 py-2 text-sm" data-testid="status-error">
+                      <div className="text-destructive">Blocked: {error.message}</div>
+                      <IssueList issues={error.issues.filter((i) => i.severity === "error")} className="mt-2" />
                     </div>
                   ) : null}
 
                   <div className="rounded-xl bg-muted/50 px-3 py-2 text-xs text-muted-foreground" data-testid="text-safety">
                     Safety: component whitelist + plan validation before rendering.
+                    {plannerName === "llm" ? " LLM plans that fail validation fall back to the rule planner." : null}
                   </div>
                 </div>
               </ResizablePanel>
@@ -721,6 +932,14 @@ export default function UIStudio() {
                       <TabsTrigger value="code" className="gap-2" data-testid="tab-code">
                         <Code2 className="h-4 w-4" /> Code
                       </TabsTrigger>
+                      <TabsTrigger value="guardrails" className="gap-2" data-testid="tab-guardrails">
+                        <ShieldCheck className="h-4 w-4" /> Guardrails
+                        {report.issues.length ? (
+                          <Badge variant="secondary" className="h-5 px-1.5" data-testid="badge-issue-count">
+                            {report.issues.length}
+                          </Badge>
+                        ) : null}
+                      </TabsTrigger>
                     </TabsList>
 
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -731,7 +950,9 @@ export default function UIStudio() {
                   </div>
 
                   <TabsContent value="preview" className="p-4" data-testid="panel-preview">
-                    <PreviewMock model={model} />
+                    <PreviewDatasets.Provider value={datasets}>
+                      <PreviewMock model={model} />
+                    </PreviewDatasets.Provider>
                     <div className="mt-3 grid grid-cols-1 lg:grid-cols-3 gap-3" data-testid="grid-meta">
                       <Card className="p-4" data-testid="card-planner">
                         <div className="text-xs text-muted-foreground">Planner output</div>
@@ -746,19 +967,42 @@ export default function UIStudio() {
                         </div>
                       </Card>
                       <Card className="p-4" data-testid="card-guardrails">
-                        <div className="text-xs text-muted-foreground">Guardrails</div>
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="text-xs text-muted-foreground">Guardrails</div>
+                          <PolicyDialog policy={policy} onSave={updatePolicy} />
+                        </div>
                         <div className="mt-2 space-y-2 text-sm">
-                          <div className="flex items-center justify-between" data-testid="row-guard-1">
-                            <span>Whitelist</span>
+                          <div className="flex items-center justify-between gap-2" data-testid="row-guard-whitelist">
+                            <span>
+                              Whitelist{" "}
+                              <span className="text-xs text-muted-foreground">{ALLOWED_COMPONENTS.size} components</span>
+                            </span>
                             <Badge variant="secondary">on</Badge>
                           </div>
-                          <div className="flex items-center justify-between" data-testid="row-guard-2">
-                            <span>Plan validation</span>
-                            <Badge variant="secondary">on</Badge>
-                          </div>
-                          <div className="flex items-center justify-between" data-testid="row-guard-3">
-                            <span>Safe render</span>
-                            <Badge variant="secondary">mock</Badge>
+                          {describePolicy(policy).map((r) => (
+                            <div
+                              key={r.rule}
+                              className="flex items-center justify-between gap-2"
+                              data-testid={`row-guard-${r.rule}`}
+                            >
+                              <span className="min-w-0">
+                                {r.label} <span className="text-xs text-muted-foreground">{r.detail}</span>
+                              </span>
+                              <Badge variant={r.enabled ? "secondary" : "outline"} data-testid={`badge-guard-${r.rule}`}>
+                                {r.enabled ? "on" : "off"}
+                              </Badge>
+                            </div>
+                          ))}
+                          <div className="flex items-center justify-between gap-2" data-testid="row-guard-repair">
+                            <span>
+                              Auto-repair{" "}
+                              <span className="text-xs text-muted-foreground">up to {MAX_REPAIR_ATTEMPTS} rounds</span>
+                            </span>
+                            <Switch
+                              checked={autoRepair}
+                              onCheckedChange={setAutoRepair}
+                              data-testid="switch-auto-repair"
+                            />
                           </div>
                         </div>
                       </Card>
@@ -773,13 +1017,34 @@ export default function UIStudio() {
                       <Badge variant="outline" data-testid="badge-whitelist">
                         whitelist enforced
                       </Badge>
+                      {streamingCode !== null ? (
+                        <Badge variant="outline" data-testid="badge-streaming">
+                          streaming…
+                        </Badge>
+                      ) : null}
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        className="ml-auto gap-2"
+                        disabled={exporting}
+                        onClick={() => exportProject()}
+                        data-testid="button-export"
+                      >
+                        <Download className="h-4 w-4" />
+                        {exporting ? "Exporting…" : "Export project"}
+                      </Button>
                     </div>
-                    <CodeBlock value={model.code} />
+                    <CodeBlock value={streamingCode ?? model.code} />
                     <div className="mt-3 text-xs text-muted-foreground" data-testid="text-code-note">
-                      Note: in this mockup the “code” is a deterministic template output. In a full app, this would be a
-                      real editor + sandboxed render.
+                      A complete <span className="ui-mono">.tsx</span> page built on the project&apos;s{" "}
+                      <span className="ui-mono">@/components/ui</span> primitives. Drop it into{" "}
+                      <span className="ui-mono">client/src/pages</span> and it type-checks as is.
                     </div>
                   </TabsContent>
+
+                  <TabsContent value="guardrails" className="p-4" data-testid="panel-guardrails">
+                    <GuardrailsPanel issues={report.issues} blocked={error?.issues ?? null} />
+                  </TabsContent>
                 </Tabs>
               </ResizablePanel>
             </ResizablePanelGroup>
@@ -829,7 +1094,7 @@ export default function UIStudio() {
             <div>
               <div className="ui-title text-xl">Try prompts like</div>
               <div className="text-sm text-muted-foreground mt-1">
-                “Create a landing page with pricing cards”, “Add a bar chart”, “Make it enterprise”, “Show empty state”.
+                “Create a landing page with pricing cards”, “Add an FAQ and a contact form”, “Add a bar chart”, “Make it enterprise”.
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -854,8 +1119,9 @@ export default function UIStudio() {
         </div>
 
         <div className="mt-10 text-xs text-muted-foreground" data-testid="text-disclaimer">
-          This is a frontend-only mockup that demonstrates the deterministic agent loop. To connect a real LLM, code
-          sandboxing, and persistence, you’d typically add a backend.
+          Projects, versions and chat are saved on the server and shared live with everyone in the project&apos;s
+          session. The rule planner runs in your browser; when the server has an OpenAI-compatible model configured,
+          the LLM planner runs there, and its plans pass the same validation before anything renders.
         </div>
       </div>
     </div>
@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { registerComponent } from "@shared/pipeline";
+
+// A plugin as server/plugins.test.ts loads it. The studio's plugins carry a
+// React preview; the server never renders, so this one has none.
+registerComponent({
+  name: "StatusPill",
+  props: z.object({ label: z.string().min(1).max(40) }).strict(),
+  defaults: { label: "All systems normal" },
+  triggers: ["status pill"],
+  noun: "status pill",
+  code: {
+    imports: [["@/components/ui/badge", "Badge"]],
+    propsType: "{ label: string }",
+    ident: "StatusPill",
+    definition: ["function StatusPill({ label }: StatusPillProps) {", "  return <Badge>{label}</Badge>;", "}"],
+  },
+  preview: null,
+});
@@ -51,6 +51,8 @@ async function buildAll() {
     platform: "node",
     bundle: true,
     format: "cjs",
+    // Plugin modules from client/src/plugins are bundled in; see server/plugins.ts.
+    jsx: "automatic",
     outfile: "dist/index.cjs",
     define: {
       "process.env.NODE_ENV": '"production"',
@@ -0,0 +1,83 @@
+import { existsSync } from "fs";
+import { isDeepStrictEqual } from "util";
+import { acceptPlan, buildModel, MAX_REPAIR_ATTEMPTS, rulePlanner, runPipelineWith } from "@shared/pipeline";
+import { fixtureKey, loadFixtures, replayPlanner, type PlannerFixture } from "../server/planner-fixtures";
+
+// Replays every recorded planner fixture, offline, and fails when today's
+// validation accepts or rejects its output differently than at record time,
+// or accepts a different plan. Rule-planner fixtures are planned afresh and
+// must match the recording; LLM output is replayed as recorded. Accepted
+// plans also go through the generator and explainer, and each LLM request
+// runs through the whole pipeline, repair rounds included, which fails if a
+// round the flow asks for was never recorded. A missing or empty
+// fixture directory fails too, so the check cannot pass on nothing.
+// Whether the pipeline runs the fixture's request from fixtures alone.
+async function replaysFully({ provider, request }: PlannerFixture, dir: string) {
+  const { prompt, mode, prev, policy } = request;
+  const result = await runPipelineWith(replayPlanner(provider, dir), prompt, mode, prev, policy, MAX_REPAIR_ATTEMPTS);
+  return !result.planner.fallback?.reason.startsWith(`No ${provider} fixture`);
+}
+
+async function checkFixtures(dir: string) {
+  if (!existsSync(dir)) {
+    console.error(`No fixture directory at ${dir}; record one with npm run record:fixtures`);
+    process.exit(1);
+  }
+  const fixtures = await loadFixtures(dir);
+  if (fixtures.length === 0) {
+    console.error(`No planner fixtures in ${dir}; record some with npm run record:fixtures`);
+    process.exit(1);
+  }
+  let failures = 0;
+
+  for (const fixture of fixtures) {
+    const { provider, request } = fixture;
+    const label = `${provider}-${fixture.key} "${request.prompt}"${request.repair ? " (repair round)" : ""}`;
+    const fail = (reason: string) => {
+      failures++;
+      console.error(`FAIL ${label}: ${reason}`);
+    };
+
+    if (fixtureKey(provider, request) !== fixture.key) {
+      fail("request was edited after recording; re-record it");
+      continue;
+    }
+
+    let output: unknown;
+    try {
+      output = await (provider === "rules" ? rulePlanner : replayPlanner(provider, dir)).plan(request);
+    } catch (err) {
+      if (fixture.error === undefined) fail(`replay failed: ${(err as Error).message}`);
+      else console.log(`ok   ${label} (recorded error)`);
+      continue;
+    }
+
+    // Compared as JSON, the form the recording was saved in.
+    if (provider === "rules" && !isDeepStrictEqual(JSON.parse(JSON.stringify(output)), fixture.output)) {
+      fail("rule planner output differs from the recording");
+      continue;
+    }
+
+    const accepted = acceptPlan(output, request.policy);
+    if (fixture.plan && !accepted.ok) {
+      fail(`recorded plan is now rejected: ${accepted.reason}`);
+    } else if (!fixture.plan && accepted.ok) {
+      fail(`recorded output was rejected (${fixture.rejected}) but is now accepted`);
+    } else if (accepted.ok && !isDeepStrictEqual(accepted.plan, fixture.plan)) {
+      fail("plan differs from the recording");
+    } else if (provider !== "rules" && !request.repair && !(await replaysFully(fixture, dir))) {
+      fail("a repair round the pipeline asks for was never recorded; re-record it");
+    } else {
+      if (accepted.ok) buildModel(accepted.plan, request.prev);
+      console.log(`ok   ${label}`);
+    }
+  }
+
+  console.log(`${fixtures.length - failures}/${fixtures.length} planner fixtures passed (${dir})`);
+  if (failures > 0) process.exit(1);
+}
+
+checkFixtures(process.argv[2] || process.env.PLANNER_FIXTURES_DIR || "fixtures/planner").catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+import {
+  DEFAULT_POLICY,
+  MAX_REPAIR_ATTEMPTS,
+  planner,
+  planWith,
+  rulePlanner,
+  type PlannerProvider,
+  type PlannerRequest,
+} from "@shared/pipeline";
+import { createLlmPlanner, llmConfigFromEnv } from "../server/llm-planner";
+import { recordingPlanner } from "../server/planner-fixtures";
+import { syntheticLlmPlanner } from "./synthetic-llm-planner";
+
+// The requests every provider is recorded on: each layout, a modify, and a
+// policy. Change them and re-record, then commit the new fixtures.
+function requests(): PlannerRequest[] {
+  const dashboard = planner("Create a dashboard with a sidebar, charts, and a table. Make it minimal.", undefined);
+  return [
+    { prompt: "Create a dashboard with a sidebar, charts, and a table. Make it minimal.", mode: "generate" },
+    { prompt: "Create a landing page with pricing cards and an FAQ. Make it bold.", mode: "generate" },
+    { prompt: "Create a settings page with a settings modal", mode: "generate" },
+    { prompt: "I don't want a sidebar. Add a bar chart of revenue by region.", mode: "modify", prev: dashboard },
+    {
+      prompt: "Create a dashboard with KPIs, a table and an empty state",
+      mode: "generate",
+      policy: {
+        ...DEFAULT_POLICY,
+        maxComponents: { ...DEFAULT_POLICY.maxComponents, limit: 6 },
+        forbiddenCombinations: { ...DEFAULT_POLICY.forbiddenCombinations, enabled: true },
+      },
+    },
+  ];
+}
+
+// Records the rule planner, and the LLM planner when PLANNER_LLM_* is set,
+// on every request above. LLM requests run through planWith with repair
+// rounds, so the repair prompts get recorded too. With --synthetic, the
+// scripted planner stands in for the model. Rule fixtures pin the keyword
+// planner's output; LLM fixtures let CI replay the model offline.
+async function recordFixtures(dir: string, synthetic: boolean) {
+  const providers: PlannerProvider[] = [rulePlanner];
+  const llm = llmConfigFromEnv();
+  if (synthetic) providers.push(syntheticLlmPlanner);
+  else if (llm) providers.push(createLlmPlanner(llm));
+  else console.warn("PLANNER_LLM_BASE_URL and PLANNER_LLM_MODEL are not set; recording the rule planner only.");
+
+  for (const provider of providers) {
+    const recorder = recordingPlanner(provider, dir);
+    for (const request of requests()) {
+      if (provider.name === "rules") {
+        await recorder.plan(request);
+        console.log(`recorded rules "${request.prompt}"`);
+        continue;
+      }
+      const { report } = await planWith(recorder, request, MAX_REPAIR_ATTEMPTS);
+      const outcome = report.fallback
+        ? `fell back: ${report.fallback.reason}`
+        : `accepted after ${report.corrections?.length ? "repair" : "one round"}`;
+      console.log(`recorded ${provider.name} "${request.prompt}" (${outcome})`);
+    }
+  }
+}
+
+const args = process.argv.slice(2);
+const dir = args.find((a) => !a.startsWith("--")) || process.env.PLANNER_FIXTURES_DIR || "fixtures/planner";
+recordFixtures(dir, args.includes("--synthetic")).catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
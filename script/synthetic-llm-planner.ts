@@ -0,0 +1,40 @@
+import { planner, type PlannerProvider, type PlannerRequest, type UIPlan } from "@shared/pipeline";
+
+// A scripted stand-in for the LLM planner, for recording fixtures where no
+// model is reachable. Its answers are written to cover what planWith must
+// handle, not to imitate a model: plans accepted as is, an unlisted component
+// that a repair round drops, and a plan that keeps breaking the policy until
+// the rule planner takes over. Fixtures recorded from it are synthetic; see
+// fixtures/planner/README.md.
+const TITLES: Record<UIPlan["layout"], string> = {
+  dashboard: "Operations overview",
+  landing: "Launch faster",
+  settings: "Workspace settings",
+};
+
+function answer({ prompt, prev, repair }: PlannerRequest): UIPlan {
+  const plan = planner(prompt, prev);
+
+  if (prompt.startsWith("Create a landing page")) {
+    if (repair) return { ...plan, content: { ...plan.content, title: TITLES.landing } };
+    const carousel = { id: "carousel-1", type: "Carousel", props: { slides: 3 } };
+    return { ...plan, components: [...plan.components, carousel] } as unknown as UIPlan;
+  }
+
+  if (prompt.includes("empty state")) {
+    // Ignores the repair request and answers with the same oversized plan.
+    return { ...plan, content: { ...plan.content, title: "Account health" } };
+  }
+
+  if (prompt.startsWith("I don't want")) {
+    return { ...plan, content: { ...plan.content, subtitle: "Revenue by region at a glance." } };
+  }
+  return { ...plan, content: { ...plan.content, title: TITLES[plan.layout] } };
+}
+
+export const syntheticLlmPlanner: PlannerProvider = {
+  name: "llm",
+  async plan(request) {
+    return answer(request);
+  },
+};
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import * as XLSX from "xlsx";
+import { parseDataFile } from "./datasets";
+
+function spreadsheet(rows: unknown[][], format?: { cell: string; z: string }): Buffer {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  if (format) sheet[format.cell].z = format.z;
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, "Sheet1");
+  return XLSX.write(book, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+describe("parseDataFile", () => {
+  const zone = process.env.TZ;
+  afterEach(() => {
+    process.env.TZ = zone;
+  });
+
+  // 45306 is 2024-01-15 in the 1900 date system.
+  for (const tz of ["Asia/Tokyo", "America/New_York", "UTC"]) {
+    it(`keeps a spreadsheet date on its day in ${tz}`, () => {
+      process.env.TZ = tz;
+      const file = spreadsheet([["Day"], [45306]], { cell: "A2", z: "yyyy-mm-dd" });
+      const parsed = parseDataFile("sales.xlsx", file);
+      assert.ok(parsed.ok);
+      assert.deepEqual(parsed.data.columns, [{ name: "Day", type: "date" }]);
+      assert.deepEqual(parsed.data.rows, [["2024-01-15"]]);
+    });
+  }
+
+  it("keeps the time of a spreadsheet timestamp", () => {
+    process.env.TZ = "Asia/Tokyo";
+    const file = spreadsheet([["At"], [45306.5]], { cell: "A2", z: "yyyy-mm-dd hh:mm" });
+    const parsed = parseDataFile("log.xlsx", file);
+    assert.ok(parsed.ok);
+    assert.deepEqual(parsed.data.rows, [["2024-01-15T12:00:00"]]);
+  });
+
+  it("reads CSV dates as written", () => {
+    process.env.TZ = "America/New_York";
+    const parsed = parseDataFile("sales.csv", Buffer.from("Day,Units\n1/15/2024,3\n2024-01-16,4\n"));
+    assert.ok(parsed.ok);
+    assert.deepEqual(parsed.data.columns, [
+      { name: "Day", type: "date" },
+      { name: "Units", type: "number" },
+    ]);
+    assert.deepEqual(parsed.data.rows, [
+      ["2024-01-15", 3],
+      ["2024-01-16", 4],
+    ]);
+  });
+
+  it("keeps the leading zeros of CSV zip codes", () => {
+    const parsed = parseDataFile("stores.csv", Buffer.from("Zip,Sales\n02134,10\n90210,12\n"));
+    assert.ok(parsed.ok);
+    assert.deepEqual(parsed.data.columns[0], { name: "Zip", type: "string" });
+    assert.deepEqual(parsed.data.rows, [
+      ["02134", 10],
+      ["90210", 12],
+    ]);
+  });
+});
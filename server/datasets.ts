@@ -0,0 +1,90 @@
+import path from "path";
+import * as XLSX from "xlsx";
+import { typeTable, type DatasetData, type DatasetLookup, type UIPlan } from "@shared/pipeline";
+import { storage } from "./storage";
+
+export const DATA_FILE_EXTENSIONS = [".csv", ".tsv", ".xlsx", ".xls"];
+export const MAX_DATA_FILE_BYTES = 5 * 1024 * 1024;
+
+export type ParsedDataFile =
+  | { ok: true; data: Pick<DatasetData, "columns" | "rows"> }
+  | { ok: false; error: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Day 0 of each date system, as UTC. The 1900 system counts a 29 February
+// 1900 that never was, so serials from 61 on are a day ahead.
+const EPOCH_1900 = Date.UTC(1899, 11, 31);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+// A number format shows a date or time when, outside quoted text, escapes and
+// [colour] or [$-locale] sections, it has a d, m, y, h or s code.
+function isDateFormat(format: string) {
+  const codes = format.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  return !/^general$/i.test(codes.trim()) && /[dmyhs]/i.test(codes);
+}
+
+// ISO text for a day serial, worked out in UTC so the server's time zone
+// cannot move it to another day.
+function serialToText(serial: number, date1904: boolean) {
+  const days = date1904 || serial < 61 ? serial : serial - 1;
+  const ms = Math.round((days * DAY_MS) / 1000) * 1000;
+  const iso = new Date((date1904 ? EPOCH_1904 : EPOCH_1900) + ms).toISOString();
+  return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+// Spreadsheet dates are day serials with a date format. They become ISO text
+// here: the Date objects SheetJS builds are local midnight, which shifts by a
+// day once written out in UTC.
+function datesToText(sheet: XLSX.WorkSheet, date1904: boolean) {
+  for (const [address, cell] of Object.entries(sheet) as Array<[string, XLSX.CellObject]>) {
+    if (address.startsWith("!") || cell.t !== "n" || typeof cell.z !== "string" || !isDateFormat(cell.z)) continue;
+    cell.t = "s";
+    cell.v = serialToText(cell.v as number, date1904);
+  }
+}
+
+// Reads the first sheet of a spreadsheet, or a CSV/TSV file, into typed
+// columns. The first row is the header.
+export function parseDataFile(filename: string, buffer: Buffer): ParsedDataFile {
+  const ext = path.extname(filename).toLowerCase();
+  if (!DATA_FILE_EXTENSIONS.includes(ext)) {
+    return { ok: false, error: `Unsupported file type "${ext || filename}". Use ${DATA_FILE_EXTENSIONS.join(", ")}.` };
+  }
+
+  // Text files are read as text, so typeTable sees "02134" and "1/15/2024"
+  // as written rather than as SheetJS's numbers and local-time dates.
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook =
+      ext === ".csv" || ext === ".tsv"
+        ? XLSX.read(buffer.toString("utf8"), { type: "string", raw: true, FS: ext === ".tsv" ? "\t" : "," })
+        : XLSX.read(buffer, { type: "buffer", cellNF: true });
+  } catch (err) {
+    return { ok: false, error: `Could not read ${filename}: ${(err as Error).message}` };
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { ok: false, error: `${filename} has no sheets.` };
+  datesToText(sheet, Boolean(workbook.Workbook?.WBProps?.date1904));
+
+  const [header, ...cells] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: null });
+  if (!header || header.every((h) => h === null || String(h).trim() === "")) {
+    return { ok: false, error: `${filename} has no header row.` };
+  }
+
+  const data = typeTable(header, cells);
+  if (data.rows.length === 0) return { ok: false, error: `${filename} has a header but no rows.` };
+  return { ok: true, data };
+}
+
+// The stored datasets the plan's components are bound to, for generating its
+// code. Ids with no dataset are left out, so those charts plot sample data.
+export async function boundDatasets(plan: UIPlan | undefined): Promise<DatasetLookup> {
+  const ids = new Set<string>();
+  for (const c of plan?.components ?? []) {
+    const { dataset } = c.props as { dataset?: unknown };
+    if (typeof dataset === "string") ids.add(dataset);
+  }
+  const found = await Promise.all(Array.from(ids, (id) => storage.getDataset(id)));
+  return new Map(found.filter((d) => d !== undefined).map((d) => [d.id, d]));
+}
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { inflateRawSync } from "zlib";
+import { buildModel, planner } from "@shared/pipeline";
+import { buildProjectArchive, exportSlug } from "./export";
+
+// Reads the local file entries of an archive from createZip.
+function unzip(archive: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  let at = 0;
+  while (archive.readUInt32LE(at) === 0x04034b50) {
+    const method = archive.readUInt16LE(at + 8);
+    const size = archive.readUInt32LE(at + 18);
+    const nameLength = archive.readUInt16LE(at + 26);
+    const extraLength = archive.readUInt16LE(at + 28);
+    const name = archive.toString("utf-8", at + 30, at + 30 + nameLength);
+    const start = at + 30 + nameLength + extraLength;
+    const data = archive.subarray(start, start + size);
+    files.set(name, (method === 8 ? inflateRawSync(data) : data).toString("utf-8"));
+    at = start + size;
+  }
+  return files;
+}
+
+describe("exportSlug", () => {
+  it("makes a folder name from the title", () => {
+    assert.equal(exportSlug("Sales — Q3 overview!"), "sales-q3-overview");
+    assert.equal(exportSlug("***"), "generated-ui");
+  });
+});
+
+describe("buildProjectArchive", () => {
+  const model = buildModel(planner("Create a dashboard with a bar chart", undefined));
+  const { filename, archive } = buildProjectArchive(model);
+  const slug = filename.replace(/\.zip$/, "");
+  const files = unzip(archive);
+
+  it("holds a Vite project around the generated page", () => {
+    for (const file of ["package.json", "tsconfig.json", "vite.config.ts", "index.html", "src/main.tsx"]) {
+      assert.ok(files.has(`${slug}/${file}`), `missing ${file}`);
+    }
+    assert.equal(files.get(`${slug}/src/pages/GeneratedPage.tsx`), model.code);
+  });
+
+  it("carries the primitives the page imports and their packages", () => {
+    assert.ok(files.has(`${slug}/src/components/ui/chart.tsx`));
+    assert.ok(!files.has(`${slug}/src/components/ui/accordion.tsx`));
+    const pkg = JSON.parse(files.get(`${slug}/package.json`)!);
+    assert.ok(pkg.dependencies.recharts);
+    assert.ok(!pkg.dependencies.express);
+  });
+
+  it("is byte-identical for the same model", () => {
+    assert.ok(buildProjectArchive(model).archive.equals(archive));
+  });
+});
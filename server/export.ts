@@ -0,0 +1,206 @@
+import fs from "fs";
+import path from "path";
+import type { UIModel } from "@shared/pipeline";
+import { createZip, type ZipEntry } from "./zip";
+
+// Exports read the studio's own primitives so the archive ships exactly
+// what the preview renders.
+const CLIENT_SRC = path.resolve(process.cwd(), "client", "src");
+const ROOT_PACKAGE = path.resolve(process.cwd(), "package.json");
+
+const IMPORT_RE = /(?:import|export)[^"']*?from\s+["']([^"']+)["']|import\s+["']([^"']+)["']/g;
+
+const TOOLING_DEPS = [
+  "@tailwindcss/vite",
+  "@types/react",
+  "@types/react-dom",
+  "@vitejs/plugin-react",
+  "tailwindcss",
+  "typescript",
+  "vite",
+];
+
+function importsOf(source: string): string[] {
+  const out: string[] = [];
+  for (const m of Array.from(source.matchAll(IMPORT_RE))) out.push(m[1] ?? m[2]);
+  return out;
+}
+
+function packageName(specifier: string) {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+// "@/components/ui/table" -> "components/ui/table.tsx", checking the
+// extensions the studio uses.
+function resolveAlias(specifier: string): string | undefined {
+  const rel = specifier.slice(2);
+  for (const ext of [".tsx", ".ts"]) {
+    if (fs.existsSync(path.join(CLIENT_SRC, rel + ext))) return rel + ext;
+  }
+  return undefined;
+}
+
+// Walks "@/..." imports from the generated page and collects every local
+// file and npm package the page needs.
+function collectDependencies(entry: string) {
+  const files = new Map<string, string>();
+  const packages = new Set<string>(["react", "react-dom", "tw-animate-css"]);
+  const queue = [...importsOf(entry)];
+
+  while (queue.length > 0) {
+    const specifier = queue.shift()!;
+    if (!specifier.startsWith("@/")) {
+      if (!specifier.startsWith(".")) packages.add(packageName(specifier));
+      continue;
+    }
+    const rel = resolveAlias(specifier);
+    if (!rel) throw new Error(`Cannot resolve ${specifier} for export`);
+    if (files.has(rel)) continue;
+    const source = fs.readFileSync(path.join(CLIENT_SRC, rel), "utf-8");
+    files.set(rel, source);
+    queue.push(...importsOf(source));
+  }
+
+  return { files, packages };
+}
+
+export function exportSlug(title: string) {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 48) || "generated-ui"
+  );
+}
+
+function packageJson(name: string, packages: Set<string>) {
+  const root = JSON.parse(fs.readFileSync(ROOT_PACKAGE, "utf-8"));
+  const known: Record<string, string> = { ...root.dependencies, ...root.devDependencies };
+  const pick = (names: Iterable<string>) =>
+    Object.fromEntries(
+      Array.from(names)
+        .sort()
+        .map((n) => [n, known[n] ?? "latest"]),
+    );
+
+  return JSON.stringify(
+    {
+      name,
+      private: true,
+      version: "0.0.0",
+      type: "module",
+      scripts: {
+        dev: "vite",
+        build: "vite build",
+        preview: "vite preview",
+        check: "tsc",
+      },
+      dependencies: pick(packages),
+      devDependencies: pick(TOOLING_DEPS),
+    },
+    null,
+    2,
+  );
+}
+
+const VITE_CONFIG = `import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+import tailwindcss from "@tailwindcss/vite";
+import path from "path";
+
+export default defineConfig({
+  plugins: [react(), tailwindcss()],
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "src"),
+    },
+  },
+});
+`;
+
+const TSCONFIG = JSON.stringify(
+  {
+    include: ["src"],
+    compilerOptions: {
+      noEmit: true,
+      module: "ESNext",
+      target: "ES2020",
+      strict: true,
+      lib: ["esnext", "dom", "dom.iterable"],
+      jsx: "react-jsx",
+      esModuleInterop: true,
+      skipLibCheck: true,
+      moduleResolution: "bundler",
+      baseUrl: ".",
+      types: ["vite/client"],
+      paths: { "@/*": ["./src/*"] },
+    },
+  },
+  null,
+  2,
+);
+
+function indexHtml(title: string) {
+  const escaped = title.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escaped}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`;
+}
+
+const MAIN_TSX = `import { createRoot } from "react-dom/client";
+import GeneratedPage from "./pages/GeneratedPage";
+import "./index.css";
+
+createRoot(document.getElementById("root")!).render(<GeneratedPage />);
+`;
+
+function readme(title: string) {
+  return `# ${title}
+
+Generated by the Deterministic UI Builder.
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+
+The page lives in \`src/pages/GeneratedPage.tsx\`; \`src/components/ui\` holds only the primitives it uses.
+`;
+}
+
+export function buildProjectArchive(model: UIModel): { filename: string; archive: Buffer } {
+  const title = model.plan.content.title;
+  const slug = exportSlug(title);
+  const { files, packages } = collectDependencies(model.code);
+
+  const entries: ZipEntry[] = [
+    { path: "package.json", data: packageJson(slug, packages) },
+    { path: "tsconfig.json", data: TSCONFIG },
+    { path: "vite.config.ts", data: VITE_CONFIG },
+    { path: "index.html", data: indexHtml(title) },
+    { path: "README.md", data: readme(title) },
+    { path: "src/main.tsx", data: MAIN_TSX },
+    { path: "src/index.css", data: fs.readFileSync(path.join(CLIENT_SRC, "index.css"), "utf-8") },
+    { path: "src/pages/GeneratedPage.tsx", data: model.code },
+    ...Array.from(files.keys())
+      .sort()
+      .map((rel) => ({ path: `src/${rel}`, data: files.get(rel)! })),
+  ];
+
+  return {
+    filename: `${slug}.zip`,
+    archive: createZip(entries.map((e) => ({ ...e, path: `${slug}/${e.path}` }))),
+  };
+}
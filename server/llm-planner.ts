@@ -0,0 +1,143 @@
+import {
+  ALLOWED_COMPONENTS,
+  DEFAULT_POLICY,
+  LAYOUTS,
+  REGION_NAMES,
+  TONES,
+  defaultProps,
+  describePolicy,
+  type ComponentName,
+  type PlannerProvider,
+  type PlannerRequest,
+} from "@shared/pipeline";
+
+export type LlmPlannerConfig = {
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+};
+
+// Reads PLANNER_LLM_BASE_URL, PLANNER_LLM_MODEL, PLANNER_LLM_API_KEY and
+// PLANNER_LLM_TIMEOUT_MS. Returns null unless both the URL and model are set.
+export function llmConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LlmPlannerConfig | null {
+  const baseUrl = env.PLANNER_LLM_BASE_URL?.trim();
+  const model = env.PLANNER_LLM_MODEL?.trim();
+  if (!baseUrl || !model) return null;
+
+  const timeoutMs = parseInt(env.PLANNER_LLM_TIMEOUT_MS || "30000", 10);
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    model,
+    apiKey: env.PLANNER_LLM_API_KEY || undefined,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 30000,
+  };
+}
+
+// Tells the model the UIPlan contract: the shape, the whitelist with each
+// component's default props as an example, and the policy it is held to.
+function systemPrompt(request: PlannerRequest): string {
+  const components = Array.from(ALLOWED_COMPONENTS)
+    .map((type) => `- ${type}: ${JSON.stringify(defaultProps(type as ComponentName))}`)
+    .join("\n");
+  const rules = describePolicy(request.policy ?? DEFAULT_POLICY)
+    .filter((r) => r.enabled)
+    .map((r) => `- ${r.label}: ${r.detail}`)
+    .join("\n");
+
+  return [
+    "You plan user interfaces. Reply with one JSON object and nothing else.",
+    "The object has this shape:",
+    "{",
+    `  "layout": ${LAYOUTS.map((l) => JSON.stringify(l)).join(" | ")},`,
+    `  "tone": ${TONES.map((t) => JSON.stringify(t)).join(" | ")},`,
+    '  "components": [{ "id": string, "type": string, "props": object }],',
+    `  "regions": { ${REGION_NAMES.map((r) => `"${r}": LayoutNode[]`).join(", ")} },`,
+    '  "content": { "title": string, "subtitle"?: string }',
+    "}",
+    'LayoutNode is { "kind": "component", "ref": id, "span"?: 1-12 } or',
+    '{ "kind": "row" | "column", "children": LayoutNode[], "span"?: 1-12 }.',
+    "",
+    "Only these component types exist. Props must have exactly the keys shown:",
+    components,
+    "",
+    "Rules:",
+    "- Component ids are unique. Every component except AppShell is placed exactly once in the regions.",
+    "- AppShell is the page frame: include it, but never place it.",
+    "- Rows and columns are never empty.",
+    rules,
+  ].join("\n");
+}
+
+function userPrompt(request: PlannerRequest): string {
+  if (request.repair) {
+    return [
+      "Your plan failed validation:",
+      JSON.stringify(request.repair.output),
+      "",
+      "Issues:",
+      ...request.repair.issues.map((i) => `- ${i.path}: ${i.message} Fix: ${i.fix}`),
+      "",
+      "Return the whole corrected plan for this request:",
+      request.prompt,
+    ].join("\n");
+  }
+  if (!request.prev) return request.prompt;
+  return [
+    "Current plan:",
+    JSON.stringify(request.prev),
+    "",
+    "Change it as follows and return the whole plan:",
+    request.prompt,
+  ].join("\n");
+}
+
+// Models often wrap JSON in a Markdown fence despite being told not to.
+function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : content);
+  } catch {
+    throw new Error("LLM reply is not valid JSON");
+  }
+}
+
+// Plans through a chat completions endpoint. Errors are thrown and turned
+// into a fallback to the rule planner by planWith.
+export function createLlmPlanner(config: LlmPlannerConfig): PlannerProvider {
+  return {
+    name: "llm",
+    async plan(request) {
+      const res = await fetch(`${config.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: systemPrompt(request) },
+            { role: "user", content: userPrompt(request) },
+          ],
+        }),
+        signal: request.signal
+          ? AbortSignal.any([request.signal, AbortSignal.timeout(config.timeoutMs)])
+          : AbortSignal.timeout(config.timeoutMs),
+      }).catch((err: Error) => {
+        if (err.name === "TimeoutError") throw new Error(`LLM did not answer within ${config.timeoutMs}ms`);
+        if (err.name === "AbortError") throw new Error("LLM request was cancelled");
+        throw new Error(`LLM unreachable: ${err.message}`);
+      });
+      if (!res.ok) throw new Error(`LLM request failed: ${res.status} ${res.statusText}`);
+
+      const body = (await res.json()) as { choices?: Array<{ message?: { content?: string } }> };
+      const content = body.choices?.[0]?.message?.content;
+      if (!content) throw new Error("LLM reply has no content");
+      return extractJson(content);
+    },
+  };
+}
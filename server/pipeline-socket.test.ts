@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { after, before, describe, it } from "node:test";
+import { WebSocket } from "ws";
+import {
+  buildModel,
+  DEFAULT_POLICY,
+  PIPELINE_SOCKET_PATH,
+  planner,
+  type PipelineSocketMessage,
+} from "@shared/pipeline";
+import { registerPipelineSocket } from "./pipeline-socket";
+
+let server: Server;
+let ws: WebSocket;
+
+before(async () => {
+  server = createServer();
+  registerPipelineSocket(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  ws = new WebSocket(`ws://127.0.0.1:${port}${PIPELINE_SOCKET_PATH}`);
+  await new Promise((resolve, reject) => ws.once("open", resolve).once("error", reject));
+});
+
+after(() => {
+  ws.close();
+  server.close();
+});
+
+// Sends `request` and collects the messages for `id` up to the one that ends the run.
+function exchange(request: unknown, id: string | null): Promise<PipelineSocketMessage[]> {
+  const ends = new Set(["done", "blocked", "cancelled", "error"]);
+  const messages: PipelineSocketMessage[] = [];
+  return new Promise((resolve) => {
+    const onMessage = (data: Buffer) => {
+      const message = JSON.parse(data.toString()) as PipelineSocketMessage;
+      if (message.id !== id) return;
+      messages.push(message);
+      if (!ends.has(message.type)) return;
+      ws.off("message", onMessage);
+      resolve(messages);
+    };
+    ws.on("message", onMessage);
+    ws.send(typeof request === "string" ? request : JSON.stringify(request));
+  });
+}
+
+describe("pipeline socket", () => {
+  it("streams the stages of a run and the code in chunks", async () => {
+    const messages = await exchange({ type: "run", id: "r1", mode: "generate", prompt: "Create a dashboard" }, "r1");
+    const types = messages.map((m) => m.type).filter((t, i, all) => t !== "code" || all[i - 1] !== "code");
+    assert.deepEqual(types, ["planning", "plan", "validation", "code", "explanation", "done"]);
+
+    const expected = buildModel(planner("Create a dashboard", undefined));
+    const code = messages.flatMap((m) => (m.type === "code" ? [m.chunk] : [])).join("");
+    assert.equal(code, expected.code);
+    const done = messages.at(-1);
+    assert.ok(done?.type === "done");
+    assert.deepEqual(done.model, expected);
+  });
+
+  it("ends a blocked run with its issues", async () => {
+    const policy = { ...DEFAULT_POLICY, maxComponents: { enabled: true, severity: "error", limit: 2 } };
+    const request = { type: "run", id: "r2", mode: "generate", prompt: "Create a dashboard", policy };
+    const last = (await exchange(request, "r2")).at(-1);
+    assert.ok(last?.type === "blocked");
+    assert.ok(last.issues.some((i) => i.rule === "policy.max-components"));
+  });
+
+  it("answers errors for bad requests", async () => {
+    const [notJson] = await exchange("{", null);
+    assert.deepEqual(notJson, { type: "error", id: null, message: "Messages must be JSON" });
+    const [noPlan] = await exchange({ type: "run", id: "r3", mode: "modify", prompt: "remove the table" }, "r3");
+    assert.deepEqual(noPlan, { type: "error", id: "r3", message: "Modify needs the current plan" });
+    const [badMode] = await exchange({ type: "run", id: "r4", mode: "rewrite", prompt: "x" }, "r4");
+    assert.equal(badMode.type, "error");
+  });
+});
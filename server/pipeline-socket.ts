@@ -0,0 +1,96 @@
+import type { Server } from "http";
+import { WebSocket, WebSocketServer } from "ws";
+import { fromZodError } from "zod-validation-error";
+import {
+  MAX_REPAIR_ATTEMPTS,
+  PIPELINE_SOCKET_PATH,
+  pipelineSocketRequestSchema,
+  streamPipeline,
+  type PipelineSocketMessage,
+  type PipelineSocketRequest,
+  type UIPlan,
+} from "@shared/pipeline";
+import { boundDatasets } from "./datasets";
+import { plannerFor } from "./planners";
+
+type RunRequest = Extract<PipelineSocketRequest, { type: "run" }>;
+
+// Streams pipeline runs over a WebSocket at PIPELINE_SOCKET_PATH. A client
+// may run several at once; closing the socket cancels whatever is left.
+// Upgrades for other paths (Vite's HMR socket) are left alone.
+export function registerPipelineSocket(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== PIPELINE_SOCKET_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (ws: WebSocket) => {
+    const runs = new Map<string, AbortController>();
+    const send = (message: PipelineSocketMessage) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+    };
+
+    ws.on("message", (data) => {
+      let json: unknown;
+      try {
+        json = JSON.parse(data.toString());
+      } catch {
+        return send({ type: "error", id: null, message: "Messages must be JSON" });
+      }
+
+      const parsed = pipelineSocketRequestSchema.safeParse(json);
+      if (!parsed.success) {
+        const id = (json as { id?: unknown })?.id;
+        return send({
+          type: "error",
+          id: typeof id === "string" ? id : null,
+          message: fromZodError(parsed.error).message,
+        });
+      }
+
+      const request = parsed.data;
+      if (request.type === "cancel") return runs.get(request.id)?.abort();
+      if (runs.has(request.id)) return send({ type: "error", id: request.id, message: "Run id is already in use" });
+      run(request, runs, send);
+    });
+
+    ws.on("close", () => {
+      for (const controller of Array.from(runs.values())) controller.abort();
+    });
+  });
+}
+
+async function run(
+  request: RunRequest,
+  runs: Map<string, AbortController>,
+  send: (message: PipelineSocketMessage) => void,
+) {
+  const { id, mode, prompt, policy, planner, repair } = request;
+  if (mode === "modify" && !request.plan) {
+    return send({ type: "error", id, message: "Modify needs the current plan" });
+  }
+
+  const controller = new AbortController();
+  runs.set(id, controller);
+  try {
+    const prev = mode === "modify" ? (request.plan as UIPlan) : undefined;
+    const events = streamPipeline(
+      plannerFor(planner),
+      { prompt, mode, prev, policy, signal: controller.signal },
+      repair ? MAX_REPAIR_ATTEMPTS : 0,
+      await boundDatasets(prev),
+    );
+    for await (const event of events) {
+      if (controller.signal.aborted) break;
+      send({ ...event, id });
+    }
+    if (controller.signal.aborted) send({ type: "cancelled", id });
+  } catch (err) {
+    if (controller.signal.aborted) send({ type: "cancelled", id });
+    else send({ type: "error", id, message: (err as Error).message });
+  } finally {
+    runs.delete(id);
+  }
+}
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { MAX_REPAIR_ATTEMPTS, runPipelineWith, type PlannerRequest } from "@shared/pipeline";
+import { loadFixtures, replayPlanner } from "./planner-fixtures";
+
+const DIR = "fixtures/planner";
+const llm = replayPlanner("llm", DIR);
+
+let requests: PlannerRequest[];
+
+before(async () => {
+  const fixtures = await loadFixtures(DIR);
+  requests = fixtures.filter((f) => f.provider === "llm" && !f.request.repair).map((f) => f.request);
+});
+
+function recorded(prompt: string): PlannerRequest {
+  const request = requests.find((r) => r.prompt.startsWith(prompt));
+  assert.ok(request, `no llm fixture for "${prompt}"`);
+  return request;
+}
+
+function run(request: PlannerRequest, maxRepairs: number) {
+  const { prompt, mode, prev, policy } = request;
+  return runPipelineWith(llm, prompt, mode, prev, policy, maxRepairs);
+}
+
+describe("runPipelineWith on replayed llm fixtures", () => {
+  it("uses a plan the llm got right the first time", async () => {
+    const result = await run(recorded("Create a dashboard with a sidebar"), MAX_REPAIR_ATTEMPTS);
+    assert.ok(result.ok);
+    assert.deepEqual(result.planner, { provider: "llm", corrections: [] });
+    assert.equal(result.model.plan.content.title, "Operations overview");
+  });
+
+  it("asks the llm to repair an unlisted component and uses its answer", async () => {
+    const result = await run(recorded("Create a landing page"), MAX_REPAIR_ATTEMPTS);
+    assert.ok(result.ok);
+    assert.equal(result.planner.provider, "llm");
+    assert.deepEqual(result.planner.corrections, ["Asked the llm planner to fix: Component not allowed: Carousel"]);
+    assert.ok(!result.model.plan.components.some((c) => c.type === ("Carousel" as string)));
+  });
+
+  it("falls back to the rule planner on the Carousel plan without repair rounds", async () => {
+    const result = await run(recorded("Create a landing page"), 0);
+    assert.ok(result.ok);
+    assert.equal(result.planner.provider, "rules");
+    assert.match(result.planner.fallback?.reason ?? "", /Component not allowed: Carousel/);
+  });
+
+  it("falls back to the rule planner when repairs keep breaking the policy", async () => {
+    const result = await run(recorded("Create a dashboard with KPIs"), MAX_REPAIR_ATTEMPTS);
+    assert.equal(result.planner.provider, "rules");
+    assert.equal(result.planner.fallback?.from, "llm");
+    assert.match(result.planner.fallback?.reason ?? "", /the policy allows 6/);
+  });
+
+  it("falls back to the rule planner for a request that was never recorded", async () => {
+    const result = await runPipelineWith(llm, "Create a dashboard with a footer", "generate");
+    assert.ok(result.ok);
+    assert.equal(result.planner.provider, "rules");
+    assert.match(result.planner.fallback?.reason ?? "", /No llm fixture for this request/);
+  });
+});
@@ -0,0 +1,136 @@
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  acceptPlan,
+  type PlannerName,
+  type PlannerProvider,
+  type PlannerRequest,
+  type UIPlan,
+} from "@shared/pipeline";
+
+// One recorded provider call. `output` is the provider's raw answer, or
+// `error` its failure; `plan` is what planWith accepted from it, or null
+// with the reason it was rejected.
+export type PlannerFixture = {
+  key: string;
+  provider: PlannerName;
+  request: PlannerRequest;
+  output?: unknown;
+  error?: string;
+  plan: UIPlan | null;
+  rejected?: string;
+  recordedAt: string;
+};
+
+export type FixtureConfig = { mode: "record" | "replay"; dir: string };
+
+// Reads PLANNER_FIXTURES ("record" or "replay") and PLANNER_FIXTURES_DIR,
+// which defaults to fixtures/planner.
+export function fixtureConfigFromEnv(env: NodeJS.ProcessEnv = process.env): FixtureConfig | null {
+  const mode = env.PLANNER_FIXTURES;
+  if (mode !== "record" && mode !== "replay") return null;
+  return { mode, dir: path.resolve(env.PLANNER_FIXTURES_DIR || "fixtures/planner") };
+}
+
+// JSON with sorted keys, so equal requests hash equally whatever their key order.
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function fixtureKey(provider: PlannerName, request: PlannerRequest): string {
+  const { prompt, mode, prev, policy, repair } = request;
+  return createHash("sha256")
+    .update(canonical({ provider, prompt, mode, prev, policy, repair }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function fixturePath(dir: string, provider: PlannerName, key: string) {
+  return path.join(dir, `${provider}-${key}.json`);
+}
+
+// Passes calls through to `inner` and saves each one as a fixture,
+// overwriting an earlier recording of the same request.
+export function recordingPlanner(inner: PlannerProvider, dir: string): PlannerProvider {
+  return {
+    name: inner.name,
+    async plan(request) {
+      const key = fixtureKey(inner.name, request);
+      const { signal: _signal, ...recorded } = request;
+      const fixture: PlannerFixture = {
+        key,
+        provider: inner.name,
+        request: recorded,
+        plan: null,
+        recordedAt: new Date().toISOString(),
+      };
+      const save = async () => {
+        await mkdir(dir, { recursive: true });
+        await writeFile(fixturePath(dir, inner.name, key), JSON.stringify(fixture, null, 2) + "\n");
+      };
+
+      try {
+        fixture.output = await inner.plan(request);
+      } catch (err) {
+        fixture.error = (err as Error).message;
+        await save();
+        throw err;
+      }
+      const accepted = acceptPlan(fixture.output, request.policy);
+      if (accepted.ok) fixture.plan = accepted.plan;
+      else fixture.rejected = accepted.reason;
+      await save();
+      return fixture.output;
+    },
+  };
+}
+
+// Answers from recorded fixtures only; never touches the network. A request
+// with no recording fails, which planWith turns into a rule-planner fallback.
+export function replayPlanner(name: PlannerName, dir: string): PlannerProvider {
+  return {
+    name,
+    async plan(request) {
+      const key = fixtureKey(name, request);
+      let fixture: PlannerFixture;
+      try {
+        fixture = JSON.parse(await readFile(fixturePath(dir, name, key), "utf8")) as PlannerFixture;
+      } catch {
+        throw new Error(`No ${name} fixture for this request (${key}); record one with PLANNER_FIXTURES=record`);
+      }
+      if (fixture.error !== undefined) throw new Error(fixture.error);
+      return fixture.output;
+    },
+  };
+}
+
+// Wraps the configured provider for recording, or swaps in replay. Replay
+// works without a provider, which is the point: CI needs no endpoint.
+export function withFixtures(
+  name: PlannerName,
+  provider: PlannerProvider | null,
+  config: FixtureConfig | null,
+): PlannerProvider | null {
+  if (!config) return provider;
+  if (config.mode === "replay") return replayPlanner(name, config.dir);
+  return provider && recordingPlanner(provider, config.dir);
+}
+
+// Every fixture in `dir`, oldest recording first.
+export async function loadFixtures(dir: string): Promise<PlannerFixture[]> {
+  const files = await readdir(dir).catch(() => [] as string[]);
+  const fixtures = await Promise.all(
+    files
+      .filter((f) => f.endsWith(".json"))
+      .map(async (f) => JSON.parse(await readFile(path.join(dir, f), "utf8")) as PlannerFixture),
+  );
+  return fixtures.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
@@ -0,0 +1,31 @@
+import { rulePlanner, type PlannerName, type PlannerProvider } from "@shared/pipeline";
+import { createLlmPlanner, llmConfigFromEnv } from "./llm-planner";
+import { fixtureConfigFromEnv, withFixtures } from "./planner-fixtures";
+
+const llmConfig = llmConfigFromEnv();
+const fixtures = fixtureConfigFromEnv();
+const llmPlanner = withFixtures("llm", llmConfig ? createLlmPlanner(llmConfig) : null, fixtures);
+// Requests without a `planner` use the LLM when one is configured.
+const defaultPlanner: PlannerName = llmPlanner ? "llm" : "rules";
+
+// Asking for the LLM without one configured falls back like any other failure.
+const unconfiguredLlm: PlannerProvider = {
+  name: "llm",
+  async plan() {
+    throw new Error("No LLM planner is configured on the server");
+  },
+};
+
+export function plannerFor(name: PlannerName = defaultPlanner): PlannerProvider {
+  if (name === "rules") return rulePlanner;
+  return llmPlanner ?? unconfiguredLlm;
+}
+
+// What GET /api/planner reports.
+export function plannerInfo() {
+  return {
+    planners: llmPlanner ? ["rules", "llm"] : ["rules"],
+    default: defaultPlanner,
+    model: fixtures?.mode === "replay" ? "replay" : (llmConfig?.model ?? null),
+  };
+}
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import path from "path";
+import { describe, it } from "node:test";
+import { buildModel, planner, validatePlan } from "@shared/pipeline";
+import { buildProjectArchive } from "./export";
+import { loadPlugins } from "./plugins";
+
+describe("loadPlugins", () => {
+  it("registers plugin components so their plans validate and export on the server", async () => {
+    const plan = () => planner("Create a dashboard with a status pill", undefined);
+    assert.ok(!plan().components.some((c) => c.type === ("StatusPill" as string)));
+
+    assert.deepEqual(await loadPlugins(path.resolve("fixtures/plugins")), ["status-pill.ts"]);
+
+    const withPill = plan();
+    assert.ok(withPill.components.some((c) => c.type === ("StatusPill" as string)));
+    assert.ok(validatePlan(withPill).ok);
+    const model = buildModel(withPill);
+    assert.match(model.code, /function StatusPill/);
+    assert.ok(buildProjectArchive(model).archive.length > 0);
+  });
+
+  it("loads nothing from a folder that does not exist", async () => {
+    assert.deepEqual(await loadPlugins(path.resolve("fixtures/no-plugins")), []);
+  });
+});
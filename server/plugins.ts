@@ -0,0 +1,21 @@
+import { readdir } from "fs/promises";
+import path from "path";
+
+// The studio's plugin modules (see README, "Custom components"). Like
+// export.ts, this reads the client sources from the working directory.
+export const PLUGIN_DIR = path.resolve(process.cwd(), "client", "src", "plugins");
+
+const PLUGIN_RE = /\.tsx?$/;
+
+// Imports every plugin module so its components are registered here as in
+// the browser: plans that use them then validate, plan and export on the
+// server too. Returns the files loaded. The import path is a template so
+// the production bundle carries the plugin modules in it.
+export async function loadPlugins(dir = PLUGIN_DIR): Promise<string[]> {
+  const files = (await readdir(dir).catch(() => [] as string[])).filter((f) => PLUGIN_RE.test(f)).sort();
+  for (const file of files) {
+    if (dir === PLUGIN_DIR) await import(`../client/src/plugins/${file}`);
+    else await import(path.join(dir, file));
+  }
+  return files;
+}
@@ -0,0 +1,280 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { after, before, describe, it } from "node:test";
+import express from "express";
+import { bindDataset, buildModel, DEFAULT_POLICY, planner, type ValidationIssue } from "@shared/pipeline";
+import type { ChatMessage, Dataset, PlanVersion, Project } from "@shared/schema";
+import { registerRoutes } from "./routes";
+
+let server: Server;
+let base: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = createServer(app);
+  await registerRoutes(server, app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+async function call(method: string, path: string, body?: unknown) {
+  const res = await fetch(base + path, {
+    method,
+    headers: body === undefined ? {} : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json().catch(() => undefined) };
+}
+
+async function createProject(): Promise<Project> {
+  const { status, body } = await call("POST", "/api/projects", { name: "Test" });
+  assert.equal(status, 201);
+  return body as Project;
+}
+
+function versionBody(fields: { id?: string; parentId?: string | null } = {}) {
+  const model = buildModel(planner("Create a dashboard", undefined));
+  return { parentId: null, prompt: "Create a dashboard", mode: "generate", ...model, ...fields };
+}
+
+describe("POST /api/generate and /api/modify", () => {
+  it("generates the model the pipeline builds for the prompt", async () => {
+    const { status, body } = await call("POST", "/api/generate", { prompt: "Create a dashboard", planner: "rules" });
+    assert.equal(status, 200);
+    const expected = buildModel(planner("Create a dashboard", undefined));
+    assert.deepEqual(body.plan, expected.plan);
+    assert.equal(body.code, expected.code);
+    assert.equal(body.planner.provider, "rules");
+  });
+
+  it("modifies the plan it is sent", async () => {
+    const prev = planner("Create a dashboard", undefined);
+    const { status, body } = await call("POST", "/api/modify", { prompt: "remove the table", plan: prev });
+    assert.equal(status, 200);
+    assert.deepEqual(body.plan, planner("remove the table", prev));
+    assert.equal(body.explanation, buildModel(body.plan, prev).explanation);
+  });
+
+  it("answers 400 for a blank prompt or a modify without a plan", async () => {
+    assert.equal((await call("POST", "/api/generate", { prompt: "  " })).status, 400);
+    assert.equal((await call("POST", "/api/modify", { prompt: "remove the table" })).status, 400);
+  });
+
+  it("answers 422 with the issues for a plan the policy blocks", async () => {
+    const policy = { ...DEFAULT_POLICY, maxComponents: { enabled: true, severity: "error", limit: 2 } };
+    const { status, body } = await call("POST", "/api/generate", { prompt: "Create a dashboard", policy });
+    assert.equal(status, 422);
+    assert.ok(body.issues.some((i: ValidationIssue) => i.rule === "policy.max-components"));
+  });
+});
+
+describe("/api/projects", () => {
+  it("answers 400 for a project without a name", async () => {
+    assert.equal((await call("POST", "/api/projects", {})).status, 400);
+  });
+
+  it("answers 404 for an unknown project", async () => {
+    assert.equal((await call("GET", "/api/projects/nope")).status, 404);
+    assert.equal((await call("DELETE", "/api/projects/nope")).status, 404);
+  });
+
+  it("returns what was saved in the snapshot", async () => {
+    const project = await createProject();
+    const version = await call("POST", `/api/projects/${project.id}/versions`, versionBody());
+    await call("POST", `/api/projects/${project.id}/messages`, { role: "user", content: "Create a dashboard" });
+    const { status, body } = await call("GET", `/api/projects/${project.id}`);
+    assert.equal(status, 200);
+    assert.deepEqual(body.versions.map((v: PlanVersion) => v.id), [version.body.id]);
+    assert.deepEqual(body.messages.map((m: ChatMessage) => m.content), ["Create a dashboard"]);
+  });
+});
+
+describe("PATCH /api/projects/:id", () => {
+  it("does not move the current version", async () => {
+    const project = await createProject();
+    const { status, body } = await call("PATCH", `/api/projects/${project.id}`, { currentVersionId: "nonexistent" });
+    assert.equal(status, 200);
+    assert.equal(body.currentVersionId, null);
+  });
+
+  it("answers 404 for an unknown project", async () => {
+    assert.equal((await call("PATCH", "/api/projects/nope", { name: "x" })).status, 404);
+  });
+});
+
+describe("PUT /api/projects/:id/current-version", () => {
+  async function projectWithVersions() {
+    const project = await createProject();
+    const a = await call("POST", `/api/projects/${project.id}/versions`, versionBody());
+    const b = await call("POST", `/api/projects/${project.id}/versions`, versionBody({ parentId: a.body.id }));
+    return { project, a: a.body as PlanVersion, b: b.body as PlanVersion };
+  }
+
+  it("moves the project when `expected` is current", async () => {
+    const { project, a, b } = await projectWithVersions();
+    const first = await call("PUT", `/api/projects/${project.id}/current-version`, { versionId: a.id, expected: null });
+    assert.equal(first.status, 200);
+    const move = { versionId: b.id, expected: a.id };
+    const second = await call("PUT", `/api/projects/${project.id}/current-version`, move);
+    assert.equal(second.status, 200);
+    assert.equal(second.body.currentVersionId, b.id);
+  });
+
+  it("answers 409 with the project as it is when `expected` is stale", async () => {
+    const { project, a, b } = await projectWithVersions();
+    await call("PUT", `/api/projects/${project.id}/current-version`, { versionId: b.id });
+    const res = await call("PUT", `/api/projects/${project.id}/current-version`, { versionId: a.id, expected: null });
+    assert.equal(res.status, 409);
+    assert.equal(res.body.project.currentVersionId, b.id);
+  });
+
+  it("answers 404 for a version from another project", async () => {
+    const { a } = await projectWithVersions();
+    const project = await createProject();
+    const res = await call("PUT", `/api/projects/${project.id}/current-version`, { versionId: a.id });
+    assert.equal(res.status, 404);
+  });
+
+  it("answers 400 without a version id", async () => {
+    const project = await createProject();
+    assert.equal((await call("PUT", `/api/projects/${project.id}/current-version`, {})).status, 400);
+  });
+});
+
+describe("POST /api/projects/:id/versions", () => {
+  it("links a version to a parent in the same project", async () => {
+    const project = await createProject();
+    const parent = await call("POST", `/api/projects/${project.id}/versions`, versionBody());
+    assert.equal(parent.status, 201);
+    const child = await call("POST", `/api/projects/${project.id}/versions`, versionBody({ parentId: parent.body.id }));
+    assert.equal(child.status, 201);
+    assert.equal((child.body as PlanVersion).parentId, parent.body.id);
+  });
+
+  it("keeps sibling versions as branches of one parent", async () => {
+    const project = await createProject();
+    const parent = await call("POST", `/api/projects/${project.id}/versions`, versionBody());
+    const a = await call("POST", `/api/projects/${project.id}/versions`, versionBody({ parentId: parent.body.id }));
+    const b = await call("POST", `/api/projects/${project.id}/versions`, versionBody({ parentId: parent.body.id }));
+    const { body } = await call("GET", `/api/projects/${project.id}`);
+    const children = body.versions
+      .filter((v: PlanVersion) => v.parentId === parent.body.id)
+      .map((v: PlanVersion) => v.id);
+    assert.deepEqual(children.sort(), [a.body.id, b.body.id].sort());
+  });
+
+  it("answers 404 for a parent that does not exist", async () => {
+    const project = await createProject();
+    const res = await call("POST", `/api/projects/${project.id}/versions`, versionBody({ parentId: "nope" }));
+    assert.equal(res.status, 404);
+  });
+
+  it("answers 404 for a parent from another project", async () => {
+    const other = await createProject();
+    const parent = await call("POST", `/api/projects/${other.id}/versions`, versionBody());
+    const project = await createProject();
+    const res = await call("POST", `/api/projects/${project.id}/versions`, versionBody({ parentId: parent.body.id }));
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("POST /api/projects/:id/versions errors", () => {
+  it("answers 400 for an unknown mode", async () => {
+    const project = await createProject();
+    const body = { ...versionBody(), mode: "rewrite" };
+    assert.equal((await call("POST", `/api/projects/${project.id}/versions`, body)).status, 400);
+  });
+
+  it("answers 404 for an unknown project", async () => {
+    assert.equal((await call("POST", "/api/projects/nope/versions", versionBody())).status, 404);
+  });
+
+  it("answers 409 for a version id in use and keeps the first record", async () => {
+    const project = await createProject();
+    const first = await call("POST", `/api/projects/${project.id}/versions`, versionBody({ id: "v-reused" }));
+    assert.equal(first.status, 201);
+    const again = { ...versionBody({ id: "v-reused" }), prompt: "Something else" };
+    assert.equal((await call("POST", `/api/projects/${project.id}/versions`, again)).status, 409);
+    const { body } = await call("GET", `/api/projects/${project.id}`);
+    assert.equal(body.versions[0].prompt, "Create a dashboard");
+  });
+});
+
+describe("POST /api/projects/:id/messages", () => {
+  it("saves a message", async () => {
+    const project = await createProject();
+    const res = await call("POST", `/api/projects/${project.id}/messages`, { role: "assistant", content: "Done." });
+    assert.equal(res.status, 201);
+    assert.equal((res.body as ChatMessage).projectId, project.id);
+  });
+
+  it("answers 400 for an unknown role", async () => {
+    const project = await createProject();
+    const res = await call("POST", `/api/projects/${project.id}/messages`, { role: "system", content: "Hi" });
+    assert.equal(res.status, 400);
+  });
+
+  it("answers 404 for an unknown project", async () => {
+    assert.equal((await call("POST", "/api/projects/nope/messages", { role: "user", content: "Hi" })).status, 404);
+  });
+
+  it("answers 409 for a message id in use", async () => {
+    const project = await createProject();
+    const body = { id: "m-reused", role: "user", content: "Hi" };
+    assert.equal((await call("POST", `/api/projects/${project.id}/messages`, body)).status, 201);
+    assert.equal((await call("POST", `/api/projects/${project.id}/messages`, body)).status, 409);
+  });
+});
+
+describe("POST /api/projects/:id/versions code", () => {
+  it("derives code and explanation from the plan, not the request", async () => {
+    const project = await createProject();
+    const body = { ...versionBody(), code: "alert('pwned')", explanation: "Trust me." };
+    const res = await call("POST", `/api/projects/${project.id}/versions`, body);
+    assert.equal(res.status, 201);
+    const expected = buildModel(body.plan);
+    assert.equal(res.body.code, expected.code);
+    assert.equal(res.body.explanation, expected.explanation);
+  });
+
+  it("explains a modify against its parent", async () => {
+    const project = await createProject();
+    const parent = await call("POST", `/api/projects/${project.id}/versions`, versionBody());
+    const plan = planner("remove the table", parent.body.plan);
+    const body = { parentId: parent.body.id, prompt: "remove the table", mode: "modify", plan };
+    const res = await call("POST", `/api/projects/${project.id}/versions`, body);
+    assert.equal(res.status, 201);
+    assert.equal(res.body.explanation, buildModel(plan, parent.body.plan).explanation);
+  });
+
+  it("answers 422 for a plan that fails validation", async () => {
+    const project = await createProject();
+    const body = versionBody();
+    const plan = { ...body.plan, components: [...body.plan.components, { id: "x-1", type: "Carousel", props: {} }] };
+    const res = await call("POST", `/api/projects/${project.id}/versions`, { ...body, plan });
+    assert.equal(res.status, 422);
+    assert.match(res.body.message, /Component not allowed: Carousel/);
+  });
+});
+
+describe("POST /api/projects/:id/versions charts", () => {
+  it("plots a bound dataset in the saved code", async () => {
+    const project = await createProject();
+    const form = new FormData();
+    form.append("file", new Blob(["Region,Revenue\nNordics,1200\nBenelux,800\n"]), "sales.csv");
+    const upload = await fetch(`${base}/api/projects/${project.id}/datasets`, { method: "POST", body: form });
+    assert.equal(upload.status, 201);
+    const dataset = (await upload.json()) as Dataset;
+
+    const plan = bindDataset(planner("Create a dashboard with a bar chart of revenue by region", undefined), dataset);
+    const res = await call("POST", `/api/projects/${project.id}/versions`, { ...versionBody(), plan });
+    assert.equal(res.status, 201);
+    assert.match(res.body.code, /"x": "Nordics",\s+"s0": 1200/);
+  });
+});
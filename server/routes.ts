@@ -1,7 +1,71 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
+import type { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  buildModel,
+  exportRequestSchema,
+  generateRequestSchema,
+  MAX_REPAIR_ATTEMPTS,
+  modifyRequestSchema,
+  runPipelineWith,
+  upgradePlan,
+  validatePlan,
+  type PipelineResult,
+  type PlannerReport,
+  type UIPlan,
+} from "@shared/pipeline";
+import {
+  currentVersionRequestSchema,
+  insertChatMessageSchema,
+  insertDatasetSchema,
+  insertProjectSchema,
+  planVersionRequestSchema,
+  updateProjectSchema,
+  type ProjectSnapshot,
+} from "@shared/schema";
+import { boundDatasets, MAX_DATA_FILE_BYTES, parseDataFile } from "./datasets";
+import { buildProjectArchive } from "./export";
+import { registerPipelineSocket } from "./pipeline-socket";
+import { plannerFor, plannerInfo } from "./planners";
+import { loadPlugins } from "./plugins";
+import { broadcast, registerProjectSessions, sessionClientOf } from "./sessions";
 import { storage } from "./storage";
 
+function badRequest(res: Response, error: ZodError) {
+  return res.status(400).json({ message: fromZodError(error).message });
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_DATA_FILE_BYTES, files: 1 },
+});
+
+// Runs multer for a single "file" field and reports its errors as JSON.
+function receiveFile(req: Request, res: Response): Promise<Express.Multer.File | undefined> {
+  return new Promise((resolve) => {
+    upload.single("file")(req, res, (err: unknown) => {
+      if (!err) return resolve(req.file);
+      const tooLarge = err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE";
+      res.status(tooLarge ? 413 : 400).json({
+        message: tooLarge
+          ? `File is larger than ${MAX_DATA_FILE_BYTES / 1024 / 1024} MB`
+          : (err as Error).message,
+      });
+      resolve(undefined);
+    });
+  });
+}
+
+function sendPipelineResult(res: Response, result: PipelineResult & { planner: PlannerReport }) {
+  if (!result.ok) {
+    const { error, issues, plan, corrections, planner } = result;
+    return res.status(422).json({ message: error, issues, plan, corrections, planner });
+  }
+  return res.json({ ...result.model, corrections: result.corrections, planner: result.planner });
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -12,5 +76,183 @@ export async function registerRoutes(
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  await loadPlugins();
+  registerPipelineSocket(httpServer);
+  registerProjectSessions(httpServer);
+
+  app.get("/api/planner", (_req, res) => {
+    res.json(plannerInfo());
+  });
+
+  app.post("/api/generate", async (req, res) => {
+    const parsed = generateRequestSchema.safeParse(req.body);
+    if (!parsed.success) return badRequest(res, parsed.error);
+
+    const { prompt, policy, planner, repair } = parsed.data;
+    const maxRepairs = repair ? MAX_REPAIR_ATTEMPTS : 0;
+    sendPipelineResult(
+      res,
+      await runPipelineWith(plannerFor(planner), prompt, "generate", undefined, policy, maxRepairs),
+    );
+  });
+
+  app.post("/api/modify", async (req, res) => {
+    const parsed = modifyRequestSchema.safeParse(req.body);
+    if (!parsed.success) return badRequest(res, parsed.error);
+
+    const { prompt, policy, planner, repair } = parsed.data;
+    const prev = parsed.data.plan as UIPlan;
+    const maxRepairs = repair ? MAX_REPAIR_ATTEMPTS : 0;
+    const datasets = await boundDatasets(prev);
+    sendPipelineResult(
+      res,
+      await runPipelineWith(plannerFor(planner), prompt, "modify", prev, policy, maxRepairs, datasets),
+    );
+  });
+
+  app.post("/api/export", async (req, res) => {
+    const parsed = exportRequestSchema.safeParse(req.body);
+    if (!parsed.success) return badRequest(res, parsed.error);
+
+    // Code is regenerated from the plan rather than trusted from the client.
+    const plan = parsed.data.plan as UIPlan;
+    const validation = validatePlan(plan, parsed.data.policy);
+    if (!validation.ok) return res.status(422).json({ message: validation.error, issues: validation.issues, plan });
+
+    const { filename, archive } = buildProjectArchive(buildModel(plan, undefined, await boundDatasets(plan)));
+    res
+      .status(200)
+      .set({
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      })
+      .end(archive);
+  });
+
+  app.get("/api/projects", async (_req, res) => {
+    res.json(await storage.listProjects());
+  });
+
+  app.post("/api/projects", async (req, res) => {
+    const parsed = insertProjectSchema.safeParse(req.body);
+    if (!parsed.success) return badRequest(res, parsed.error);
+
+    res.status(201).json(await storage.createProject(parsed.data));
+  });
+
+  app.get("/api/projects/:id", async (req, res) => {
+    const project = await storage.getProject(req.params.id);
+    if (!project) return res.status(404).json({ message: "Project not found" });
+
+    const snapshot: ProjectSnapshot = {
+      project,
+      versions: await storage.listPlanVersions(project.id),
+      messages: await storage.listChatMessages(project.id),
+      datasets: await storage.listDatasets(project.id),
+    };
+    res.json(snapshot);
+  });
+
+  app.patch("/api/projects/:id", async (req, res) => {
+    const parsed = updateProjectSchema.safeParse(req.body);
+    if (!parsed.success) return badRequest(res, parsed.error);
+
+    const project = await storage.updateProject(req.params.id, parsed.data);
+    if (!project) return res.status(404).json({ message: "Project not found" });
+    const by = sessionClientOf(req);
+    broadcast(project.id, { type: "project", project, by }, by);
+    res.json(project);
+  });
+
+  // 409 with the project as it is now when `expected` no longer matches:
+  // someone else moved it first.
+  app.put("/api/projects/:id/current-version", async (req, res) => {
+    const parsed = currentVersionRequestSchema.safeParse(req.body);
+    if (!parsed.success) return badRequest(res, parsed.error);
+
+    const { versionId, expected } = parsed.data;
+    const version = await storage.getPlanVersion(versionId);
+    if (!version || version.projectId !== req.params.id) return res.status(404).json({ message: "Version not found" });
+
+    const result = await storage.moveCurrentVersion(req.params.id, versionId, expected);
+    if (!result) return res.status(404).json({ message: "Project not found" });
+    if (!result.moved) {
+      return res.status(409).json({ message: "The project moved to another version first", project: result.project });
+    }
+    const by = sessionClientOf(req);
+    broadcast(result.project.id, { type: "project", project: result.project, by }, by);
+    res.json(result.project);
+  });
+
+  app.delete("/api/projects/:id", async (req, res) => {
+    const deleted = await storage.deleteProject(req.params.id);
+    if (!deleted) return res.status(404).json({ message: "Project not found" });
+    res.status(204).end();
+  });
+
+  app.post("/api/projects/:id/versions", async (req, res) => {
+    const parsed = planVersionRequestSchema.safeParse({ ...req.body, projectId: req.params.id });
+    if (!parsed.success) return badRequest(res, parsed.error);
+
+    const project = await storage.getProject(req.params.id);
+    if (!project) return res.status(404).json({ message: "Project not found" });
+    // Clients pick version ids so parents can be linked before they are saved;
+    // an id in use stays with its record.
+    if (parsed.data.id && (await storage.getPlanVersion(parsed.data.id))) {
+      return res.status(409).json({ message: "Version id is already in use" });
+    }
+    const parent = parsed.data.parentId ? await storage.getPlanVersion(parsed.data.parentId) : undefined;
+    if (parsed.data.parentId && (!parent || parent.projectId !== project.id)) {
+      return res.status(404).json({ message: "Parent version not found" });
+    }
+
+    // As in /api/export, code and explanation come from the plan, not the
+    // client, since they are shown to every session member.
+    const plan = parsed.data.plan as UIPlan;
+    const validation = validatePlan(plan, project.policy ?? undefined);
+    if (!validation.ok) return res.status(422).json({ message: validation.error, issues: validation.issues, plan });
+    // Parents saved before a plan format change are read like the studio reads them.
+    const prev = parsed.data.mode === "modify" && parent ? (upgradePlan(parent.plan) as UIPlan) : undefined;
+    const { code, explanation } = buildModel(plan, prev, await boundDatasets(plan));
+    const version = await storage.createPlanVersion({ ...parsed.data, code, explanation });
+    const by = sessionClientOf(req);
+    broadcast(project.id, { type: "version", version, by }, by);
+    res.status(201).json(version);
+  });
+
+  app.post("/api/projects/:id/messages", async (req, res) => {
+    const parsed = insertChatMessageSchema.safeParse({ ...req.body, projectId: req.params.id });
+    if (!parsed.success) return badRequest(res, parsed.error);
+
+    const project = await storage.getProject(req.params.id);
+    if (!project) return res.status(404).json({ message: "Project not found" });
+    if (parsed.data.id && (await storage.getChatMessage(parsed.data.id))) {
+      return res.status(409).json({ message: "Message id is already in use" });
+    }
+    const message = await storage.createChatMessage(parsed.data);
+    const by = sessionClientOf(req);
+    broadcast(project.id, { type: "message", message, by }, by);
+    res.status(201).json(message);
+  });
+
+  app.post("/api/projects/:id/datasets", async (req, res) => {
+    const project = await storage.getProject(req.params.id);
+    if (!project) return res.status(404).json({ message: "Project not found" });
+
+    const file = await receiveFile(req, res);
+    if (res.headersSent) return;
+    if (!file) return res.status(400).json({ message: "Attach a CSV or XLSX file as \"file\"" });
+
+    const parsed = parseDataFile(file.originalname, file.buffer);
+    if (!parsed.ok) return res.status(422).json({ message: parsed.error });
+
+    const dataset = insertDatasetSchema.safeParse({ projectId: project.id, name: file.originalname, ...parsed.data });
+    if (!dataset.success) return badRequest(res, dataset.error);
+    const created = await storage.createDataset(dataset.data);
+    const by = sessionClientOf(req);
+    broadcast(project.id, { type: "dataset", dataset: created, by }, by);
+    res.status(201).json(created);
+  });
+
   return httpServer;
 }
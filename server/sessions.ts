@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto";
+import type { Request } from "express";
+import type { Server } from "http";
+import { WebSocket, WebSocketServer } from "ws";
+import {
+  CLIENT_ID_HEADER,
+  PROJECT_SOCKET_PATH,
+  sessionRequestSchema,
+  type Peer,
+  type SessionEvent,
+} from "@shared/session";
+import { storage } from "./storage";
+
+type Member = { ws: WebSocket; peer: Peer };
+
+const PEER_COLORS = ["#2563eb", "#db2777", "#16a34a", "#ea580c", "#7c3aed", "#0891b2", "#ca8a04", "#dc2626"];
+const MAX_NAME_LENGTH = 40;
+
+// Open sessions by project id. A session lives while someone is connected.
+const sessions = new Map<string, Map<string, Member>>();
+
+function peersOf(session: Map<string, Member>): Peer[] {
+  return Array.from(session.values()).map((m) => m.peer);
+}
+
+function send(ws: WebSocket, event: SessionEvent) {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(event));
+}
+
+// Sends `event` to everyone in the project's session except `except`, who
+// already has the change it describes.
+export function broadcast(projectId: string, event: SessionEvent, except?: string | null) {
+  const session = sessions.get(projectId);
+  if (!session) return;
+  for (const [clientId, member] of Array.from(session)) {
+    if (clientId !== except) send(member.ws, event);
+  }
+}
+
+// The session member a REST request came from, or null.
+export function sessionClientOf(req: Request): string | null {
+  return req.get(CLIENT_ID_HEADER) || null;
+}
+
+// Adds the connection to its project's session, or closes it with 4404 when
+// the project does not exist.
+async function join(ws: WebSocket, req: { url?: string }) {
+  const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+  const projectId = params.get("projectId") ?? "";
+  if (!(await storage.getProject(projectId))) return ws.close(4404, "Project not found");
+  if (ws.readyState !== WebSocket.OPEN) return;
+
+  const session = sessions.get(projectId) ?? new Map<string, Member>();
+  sessions.set(projectId, session);
+  const taken = new Set(peersOf(session).map((p) => p.color));
+  const peer: Peer = {
+    clientId: randomUUID(),
+    name: (params.get("name") ?? "").trim().slice(0, MAX_NAME_LENGTH) || "Guest",
+    color: PEER_COLORS.find((c) => !taken.has(c)) ?? PEER_COLORS[session.size % PEER_COLORS.length],
+    activity: { kind: "idle" },
+  };
+  session.set(peer.clientId, { ws, peer });
+
+  const announce = () => broadcast(projectId, { type: "presence", peers: peersOf(session) }, peer.clientId);
+  send(ws, { type: "welcome", clientId: peer.clientId, peers: peersOf(session) });
+  announce();
+
+  ws.on("message", (data) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    const parsed = sessionRequestSchema.safeParse(json);
+    if (!parsed.success) return;
+    peer.activity = parsed.data.activity;
+    broadcast(projectId, { type: "presence", peers: peersOf(session) });
+  });
+
+  ws.on("close", () => {
+    session.delete(peer.clientId);
+    if (session.size === 0) sessions.delete(projectId);
+    else announce();
+  });
+}
+
+// Project sessions at PROJECT_SOCKET_PATH?projectId=…&name=…. Members get
+// everyone's presence and every change saved to the project; the only thing
+// they send is their own activity.
+export function registerProjectSessions(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== PROJECT_SOCKET_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (ws: WebSocket, req: { url?: string }) => {
+    join(ws, req).catch((err) => {
+      console.error("Project session failed to open:", err);
+      ws.close(1011, "Internal error");
+    });
+  });
+}
@@ -1,20 +1,71 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  chatMessages,
+  datasets,
+  planVersions,
+  projects,
+  users,
+  type ChatMessage,
+  type Dataset,
+  type InsertChatMessage,
+  type InsertDataset,
+  type InsertPlanVersion,
+  type InsertProject,
+  type InsertUser,
+  type PlanVersion,
+  type Project,
+  type UpdateProject,
+  type User,
+} from "@shared/schema";
+import type { UIPlan } from "@shared/pipeline";
+import { and, asc, desc, eq, isNull } from "drizzle-orm";
 import { randomUUID } from "crypto";
+import { createDb, type Db } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
 
+// `moved` is false when the project was no longer on the expected version.
+export type CurrentVersionMove = { project: Project; moved: boolean };
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  listProjects(): Promise<Project[]>;
+  getProject(id: string): Promise<Project | undefined>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: string, patch: UpdateProject): Promise<Project | undefined>;
+  deleteProject(id: string): Promise<boolean>;
+  // Compare-and-set of currentVersionId; `expected` undefined skips the compare.
+  moveCurrentVersion(id: string, versionId: string, expected?: string | null): Promise<CurrentVersionMove | undefined>;
+
+  listPlanVersions(projectId: string): Promise<PlanVersion[]>;
+  getPlanVersion(id: string): Promise<PlanVersion | undefined>;
+  createPlanVersion(version: InsertPlanVersion): Promise<PlanVersion>;
+
+  listChatMessages(projectId: string): Promise<ChatMessage[]>;
+  getChatMessage(id: string): Promise<ChatMessage | undefined>;
+  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+
+  listDatasets(projectId: string): Promise<Dataset[]>;
+  getDataset(id: string): Promise<Dataset | undefined>;
+  createDataset(dataset: InsertDataset): Promise<Dataset>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private projects: Map<string, Project>;
+  private planVersions: Map<string, PlanVersion>;
+  private chatMessages: Map<string, ChatMessage>;
+  private datasets: Map<string, Dataset>;
 
   constructor() {
     this.users = new Map();
+    this.projects = new Map();
+    this.planVersions = new Map();
+    this.chatMessages = new Map();
+    this.datasets = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +84,279 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async listProjects(): Promise<Project[]> {
+    return Array.from(this.projects.values()).sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+    );
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const id = randomUUID();
+    const ts = new Date();
+    const project: Project = {
+      id,
+      name: insertProject.name,
+      currentVersionId: null,
+      policy: insertProject.policy ?? null,
+      createdAt: ts,
+      updatedAt: ts,
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async updateProject(id: string, patch: UpdateProject): Promise<Project | undefined> {
+    const existing = this.projects.get(id);
+    if (!existing) return undefined;
+    const project: Project = { ...existing, ...patch, updatedAt: new Date() };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async moveCurrentVersion(
+    id: string,
+    versionId: string,
+    expected?: string | null,
+  ): Promise<CurrentVersionMove | undefined> {
+    const existing = this.projects.get(id);
+    if (!existing) return undefined;
+    if (expected !== undefined && existing.currentVersionId !== expected) return { project: existing, moved: false };
+    const project: Project = { ...existing, currentVersionId: versionId, updatedAt: new Date() };
+    this.projects.set(id, project);
+    return { project, moved: true };
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    if (!this.projects.delete(id)) return false;
+    for (const [key, v] of Array.from(this.planVersions)) {
+      if (v.projectId === id) this.planVersions.delete(key);
+    }
+    for (const [key, m] of Array.from(this.chatMessages)) {
+      if (m.projectId === id) this.chatMessages.delete(key);
+    }
+    for (const [key, d] of Array.from(this.datasets)) {
+      if (d.projectId === id) this.datasets.delete(key);
+    }
+    return true;
+  }
+
+  async listPlanVersions(projectId: string): Promise<PlanVersion[]> {
+    return Array.from(this.planVersions.values()).filter(
+      (v) => v.projectId === projectId,
+    );
+  }
+
+  async getPlanVersion(id: string): Promise<PlanVersion | undefined> {
+    return this.planVersions.get(id);
+  }
+
+  async createPlanVersion(insertVersion: InsertPlanVersion): Promise<PlanVersion> {
+    const id = insertVersion.id ?? randomUUID();
+    const version: PlanVersion = {
+      ...insertVersion,
+      id,
+      parentId: insertVersion.parentId ?? null,
+      prompt: insertVersion.prompt ?? "",
+      plan: insertVersion.plan as UIPlan,
+      createdAt: new Date(),
+    };
+    this.planVersions.set(id, version);
+    return version;
+  }
+
+  async listChatMessages(projectId: string): Promise<ChatMessage[]> {
+    return Array.from(this.chatMessages.values()).filter(
+      (m) => m.projectId === projectId,
+    );
+  }
+
+  async getChatMessage(id: string): Promise<ChatMessage | undefined> {
+    return this.chatMessages.get(id);
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const id = insertMessage.id ?? randomUUID();
+    const message: ChatMessage = { ...insertMessage, id, author: insertMessage.author ?? null, createdAt: new Date() };
+    this.chatMessages.set(id, message);
+    return message;
+  }
+
+  async listDatasets(projectId: string): Promise<Dataset[]> {
+    return Array.from(this.datasets.values()).filter(
+      (d) => d.projectId === projectId,
+    );
+  }
+
+  async getDataset(id: string): Promise<Dataset | undefined> {
+    return this.datasets.get(id);
+  }
+
+  async createDataset(insertDataset: InsertDataset): Promise<Dataset> {
+    const id = randomUUID();
+    const dataset: Dataset = { ...insertDataset, id, createdAt: new Date() };
+    this.datasets.set(id, dataset);
+    return dataset;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Db) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async listProjects(): Promise<Project[]> {
+    return this.db.select().from(projects).orderBy(desc(projects.updatedAt));
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    const [project] = await this.db
+      .select()
+      .from(projects)
+      .where(eq(projects.id, id));
+    return project;
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db
+      .insert(projects)
+      .values(insertProject)
+      .returning();
+    return project;
+  }
+
+  async updateProject(id: string, patch: UpdateProject): Promise<Project | undefined> {
+    const [project] = await this.db
+      .update(projects)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  async moveCurrentVersion(
+    id: string,
+    versionId: string,
+    expected?: string | null,
+  ): Promise<CurrentVersionMove | undefined> {
+    const onExpected =
+      expected === undefined
+        ? undefined
+        : expected === null
+          ? isNull(projects.currentVersionId)
+          : eq(projects.currentVersionId, expected);
+    const [project] = await this.db
+      .update(projects)
+      .set({ currentVersionId: versionId, updatedAt: new Date() })
+      .where(and(eq(projects.id, id), onExpected))
+      .returning();
+    if (project) return { project, moved: true };
+
+    const current = await this.getProject(id);
+    return current && { project: current, moved: false };
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(projects)
+      .where(eq(projects.id, id))
+      .returning({ id: projects.id });
+    return deleted.length > 0;
+  }
+
+  async listPlanVersions(projectId: string): Promise<PlanVersion[]> {
+    return this.db
+      .select()
+      .from(planVersions)
+      .where(eq(planVersions.projectId, projectId))
+      .orderBy(asc(planVersions.createdAt));
+  }
+
+  async getPlanVersion(id: string): Promise<PlanVersion | undefined> {
+    const [version] = await this.db
+      .select()
+      .from(planVersions)
+      .where(eq(planVersions.id, id));
+    return version;
+  }
+
+  async createPlanVersion(insertVersion: InsertPlanVersion): Promise<PlanVersion> {
+    const [version] = await this.db
+      .insert(planVersions)
+      .values({ ...insertVersion, plan: insertVersion.plan as UIPlan })
+      .returning();
+    return version;
+  }
+
+  async listChatMessages(projectId: string): Promise<ChatMessage[]> {
+    return this.db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.projectId, projectId))
+      .orderBy(asc(chatMessages.createdAt));
+  }
+
+  async getChatMessage(id: string): Promise<ChatMessage | undefined> {
+    const [message] = await this.db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.id, id));
+    return message;
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const [message] = await this.db
+      .insert(chatMessages)
+      .values(insertMessage)
+      .returning();
+    return message;
+  }
+
+  async listDatasets(projectId: string): Promise<Dataset[]> {
+    return this.db
+      .select()
+      .from(datasets)
+      .where(eq(datasets.projectId, projectId))
+      .orderBy(asc(datasets.createdAt));
+  }
+
+  async getDataset(id: string): Promise<Dataset | undefined> {
+    const [dataset] = await this.db
+      .select()
+      .from(datasets)
+      .where(eq(datasets.id, id));
+    return dataset;
+  }
+
+  async createDataset(insertDataset: InsertDataset): Promise<Dataset> {
+    const [dataset] = await this.db
+      .insert(datasets)
+      .values(insertDataset)
+      .returning();
+    return dataset;
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,169 @@
+import { z } from "zod";
+import type { DatasetColumn, DatasetData } from "./datasets";
+import { SAMPLE_BREAKDOWN, SAMPLE_TREND } from "./presentation";
+
+export const CHART_AGGREGATES = ["sum", "avg", "count"] as const;
+export type ChartAggregate = (typeof CHART_AGGREGATES)[number];
+
+export const MAX_CHART_SERIES = 6;
+
+export const chartSeriesSchema = z
+  .object({
+    field: z.string().min(1).max(80),
+    label: z.string().min(1).max(40).optional(),
+  })
+  .strict();
+
+export type ChartSeries = z.infer<typeof chartSeriesSchema>;
+
+// How a chart card reads its rows: group by `x`, aggregate each series.
+export type ChartSpec = {
+  x: string;
+  series: ChartSeries[];
+  aggregate: ChartAggregate;
+  stacked: boolean;
+  legend: boolean;
+};
+
+// The parts of a spec one prompt changes.
+export type ChartEdit = Partial<ChartSpec>;
+
+export type ChartKind = "line" | "bar";
+
+// One plotted point; series values live under s0, s1, … so field names with
+// spaces or dots never reach recharts' dataKey paths.
+export type ChartPoint = { x: string } & Record<string, string | number>;
+
+export const MAX_CHART_POINTS = 24;
+
+export function seriesKey(index: number) {
+  return `s${index}`;
+}
+
+export function seriesLabel(series: ChartSeries) {
+  return series.label ?? series.field.charAt(0).toUpperCase() + series.field.slice(1);
+}
+
+// ChartConfig entries for the series, cycling through the theme's chart colors.
+export function chartConfig(series: ChartSeries[]) {
+  return Object.fromEntries(
+    series.map((s, i) => [seriesKey(i), { label: seriesLabel(s), color: `hsl(var(--chart-${(i % 5) + 1}))` }]),
+  );
+}
+
+// "Revenue by region", "Average deal size by month", "Count of orders by status"
+export function chartTitle(spec: Pick<ChartSpec, "x" | "series" | "aggregate">) {
+  const fields = spec.series.map((s) => seriesLabel(s).toLowerCase()).join(" and ");
+  const measure =
+    spec.aggregate === "avg" ? `average ${fields}` : spec.aggregate === "count" ? `count of ${fields}` : fields;
+  return `${measure.charAt(0).toUpperCase()}${measure.slice(1)} by ${spec.x}`.slice(0, 80);
+}
+
+type Row = Record<string, unknown>;
+
+function valueOf(row: Row, field: string) {
+  if (field in row) return row[field];
+  const key = Object.keys(row).find((k) => k.toLowerCase() === field.toLowerCase());
+  return key === undefined ? undefined : row[key];
+}
+
+// Non-numeric values are skipped by sum and avg but still counted.
+function aggregate(values: unknown[], how: ChartAggregate) {
+  if (how === "count") return values.filter((v) => v !== null && v !== undefined).length;
+  const numbers = values.filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+  const total = numbers.reduce((a, b) => a + b, 0);
+  if (how === "sum") return total;
+  return numbers.length ? Math.round((total / numbers.length) * 100) / 100 : 0;
+}
+
+// Groups rows by their x value (first-seen order) and aggregates every series.
+export function aggregateRows(rows: Row[], spec: Pick<ChartSpec, "x" | "series" | "aggregate">): ChartPoint[] {
+  const groups = new Map<string, Row[]>();
+  for (const row of rows) {
+    const raw = valueOf(row, spec.x);
+    const x = raw === null || raw === undefined ? "—" : String(raw);
+    const group = groups.get(x) ?? [];
+    group.push(row);
+    groups.set(x, group);
+  }
+
+  return Array.from(groups, ([x, group]) => {
+    const point: ChartPoint = { x };
+    spec.series.forEach((s, i) => {
+      point[seriesKey(i)] = aggregate(
+        group.map((r) => valueOf(r, s.field)),
+        spec.aggregate,
+      );
+    });
+    return point;
+  }).slice(0, MAX_CHART_POINTS);
+}
+
+// Stand-in rows shaped like the spec, for charts without a dataset. Each
+// further series is the sample scaled down, so stacked and multi-series
+// charts stay readable.
+export function sampleRows(spec: Pick<ChartSpec, "x" | "series">, kind: ChartKind): Row[] {
+  const base =
+    kind === "line"
+      ? SAMPLE_TREND.map((p) => ({ label: p.period, value: p.value }))
+      : SAMPLE_BREAKDOWN.map((p) => ({ label: p.segment, value: p.value }));
+  return base.map((p) => ({
+    [spec.x]: p.label,
+    ...Object.fromEntries(spec.series.map((s, i) => [s.field, Math.round(p.value * (1 - (i % 3) * 0.3))])),
+  }));
+}
+
+export function datasetRows(dataset: DatasetData): Row[] {
+  return dataset.rows.map((r) => Object.fromEntries(dataset.columns.map((c, i) => [c.name, r[i]])));
+}
+
+function columnNamed(columns: DatasetColumn[], field: string) {
+  return columns.find((c) => c.name.toLowerCase() === field.toLowerCase());
+}
+
+// Points the spec at columns the dataset actually has. Line charts fall back
+// to the first date column (else a text column) for x and bar charts to the
+// first text column (else a date column); series fall back to the first
+// numeric column. Returns undefined when nothing can be plotted.
+export function fitSpecToColumns<T extends Pick<ChartSpec, "x" | "series">>(
+  spec: T,
+  columns: DatasetColumn[],
+  kind: ChartKind,
+): T | undefined {
+  const series = spec.series
+    .map((s) => ({ s, column: columnNamed(columns, s.field) }))
+    .filter(({ column }) => column !== undefined)
+    .map(({ s, column }) => ({ ...s, field: column!.name }));
+  if (series.length === 0) {
+    const numeric = columns.find((c) => c.type === "number");
+    if (!numeric) return undefined;
+    series.push({ field: numeric.name });
+  }
+
+  let x = columnNamed(columns, spec.x)?.name;
+  if (!x) {
+    const preferred = kind === "line" ? ["date", "string"] : ["string", "date"];
+    const used = new Set(series.map((s) => s.field));
+    x = preferred
+      .map((type) => columns.find((c) => c.type === type && !used.has(c.name))?.name)
+      .find((name) => name !== undefined);
+  }
+  if (!x) return undefined;
+  return { ...spec, x, series };
+}
+
+// What a chart card plots: the bound dataset when it is loaded and has
+// usable columns, the sample rows otherwise. `series` is what the points'
+// s0, s1, … keys stand for.
+export function chartData(
+  spec: ChartSpec,
+  kind: ChartKind,
+  dataset?: DatasetData,
+): { series: ChartSeries[]; points: ChartPoint[] } {
+  const fitted = dataset ? fitSpecToColumns(spec, dataset.columns, kind) : undefined;
+  if (dataset && fitted) {
+    const points = aggregateRows(datasetRows(dataset), { ...fitted, aggregate: spec.aggregate });
+    return { series: fitted.series, points };
+  }
+  return { series: spec.series, points: aggregateRows(sampleRows(spec, kind), spec) };
+}
@@ -0,0 +1,316 @@
+import { z } from "zod";
+import { CHART_AGGREGATES, chartSeriesSchema, MAX_CHART_SERIES } from "./charts";
+import { customComponent } from "./registry";
+import type { ComponentName } from "./types";
+
+const kpiSchema = z.object({
+  label: z.string().min(1).max(40),
+  value: z.string().max(40),
+  delta: z.string().max(20).optional(),
+});
+
+const cell = z.string().max(200);
+
+// Id of an uploaded project dataset the component reads from.
+const dataset = z.string().min(1).max(64).optional();
+
+const chartSchema = z
+  .object({
+    title: z.string().min(1).max(80),
+    dataset,
+    x: z.string().min(1).max(80),
+    series: z.array(chartSeriesSchema).min(1).max(MAX_CHART_SERIES),
+    aggregate: z.enum(CHART_AGGREGATES),
+    stacked: z.boolean(),
+    legend: z.boolean(),
+  })
+  .strict();
+
+const cta = z.string().min(1).max(40);
+
+const planSchema = z
+  .object({
+    name: z.string().min(1).max(40),
+    price: z.string().min(1).max(20),
+    period: z.string().max(20).optional(),
+    features: z.array(z.string().min(1).max(80)).max(8),
+    cta,
+    highlighted: z.boolean().optional(),
+  })
+  .strict();
+
+const featureSchema = z
+  .object({
+    title: z.string().min(1).max(60),
+    description: z.string().max(200),
+  })
+  .strict();
+
+export const FORM_FIELD_TYPES = ["text", "email", "password", "number", "textarea"] as const;
+
+// `name` keys the field in the form's values, so it stays identifier-like.
+const formFieldSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1)
+      .max(40)
+      .regex(/^[a-zA-Z][a-zA-Z0-9_]*$/),
+    label: z.string().min(1).max(60),
+    type: z.enum(FORM_FIELD_TYPES),
+    placeholder: z.string().max(80).optional(),
+    required: z.boolean(),
+  })
+  .strict();
+
+const tabSchema = z
+  .object({
+    label: z.string().min(1).max(40),
+    content: z.string().max(400),
+  })
+  .strict();
+
+const faqSchema = z
+  .object({
+    question: z.string().min(1).max(160),
+    answer: z.string().max(600),
+  })
+  .strict();
+
+// Props each whitelisted component accepts. Instances in a plan are
+// validated against these before anything is generated or rendered.
+export const COMPONENT_PROP_SCHEMAS = {
+  AppShell: z.object({}).strict(),
+  TopNav: z.object({}).strict(),
+  Sidebar: z
+    .object({
+      items: z.array(z.string().min(1).max(40)).min(1).max(12),
+    })
+    .strict(),
+  KPIGrid: z
+    .object({
+      kpis: z.array(kpiSchema).max(12),
+    })
+    .strict(),
+  LineChartCard: chartSchema,
+  BarChartCard: chartSchema,
+  DataTable: z
+    .object({
+      title: z.string().min(1).max(80),
+      columns: z.array(cell).min(1).max(20),
+      rows: z.array(z.array(cell)).max(200),
+      dataset,
+    })
+    .strict(),
+  SettingsModal: z.object({ title: z.string().min(1).max(80) }).strict(),
+  EmptyState: z
+    .object({
+      title: z.string().min(1).max(80),
+      description: z.string().max(200),
+    })
+    .strict(),
+  Hero: z
+    .object({
+      headline: z.string().min(1).max(120),
+      subheadline: z.string().max(240),
+      primaryCta: cta,
+      secondaryCta: cta.optional(),
+    })
+    .strict(),
+  PricingTable: z
+    .object({
+      title: z.string().min(1).max(80),
+      plans: z.array(planSchema).min(1).max(4),
+    })
+    .strict(),
+  FeatureGrid: z
+    .object({
+      title: z.string().min(1).max(80),
+      features: z.array(featureSchema).min(1).max(9),
+    })
+    .strict(),
+  Testimonial: z
+    .object({
+      quote: z.string().min(1).max(400),
+      author: z.string().min(1).max(60),
+      role: z.string().max(80).optional(),
+    })
+    .strict(),
+  FormCard: z
+    .object({
+      title: z.string().min(1).max(80),
+      description: z.string().max(200).optional(),
+      fields: z
+        .array(formFieldSchema)
+        .min(1)
+        .max(10)
+        .refine((fields) => new Set(fields.map((f) => f.name)).size === fields.length, "Field names must be unique"),
+      submitLabel: cta,
+    })
+    .strict(),
+  TabsPanel: z
+    .object({
+      tabs: z
+        .array(tabSchema)
+        .min(1)
+        .max(6)
+        .refine((tabs) => new Set(tabs.map((t) => t.label)).size === tabs.length, "Tab labels must be unique"),
+    })
+    .strict(),
+  FAQAccordion: z
+    .object({
+      title: z.string().min(1).max(80),
+      items: z.array(faqSchema).min(1).max(12),
+    })
+    .strict(),
+  Footer: z
+    .object({
+      text: z.string().max(160),
+      links: z.array(z.string().min(1).max(40)).max(8),
+    })
+    .strict(),
+} satisfies Record<ComponentName, z.ZodTypeAny>;
+
+// The schema for a built-in or registered component.
+export function propsSchema(type: ComponentName): z.ZodTypeAny {
+  return COMPONENT_PROP_SCHEMAS[type] ?? customComponent(type)!.props;
+}
+
+export type ComponentProps = {
+  [K in ComponentName]: z.infer<(typeof COMPONENT_PROP_SCHEMAS)[K]>;
+};
+
+export type Kpi = z.infer<typeof kpiSchema>;
+
+export type ChartProps = z.infer<typeof chartSchema>;
+
+export type FormField = z.infer<typeof formFieldSchema>;
+
+export const DEFAULT_KPIS: Kpi[] = [
+  { label: "Iterations", value: "7", delta: "+2" },
+  { label: "Latency", value: "820ms", delta: "-12%" },
+  { label: "Coverage", value: "92%", delta: "+4%" },
+  { label: "Risk", value: "Low", delta: "Stable" },
+];
+
+export function defaultProps<K extends ComponentName>(type: K): ComponentProps[K] {
+  const custom = customComponent(type);
+  if (custom) return structuredClone(custom.defaults) as ComponentProps[K];
+
+  const defaults: ComponentProps = {
+    AppShell: {},
+    TopNav: {},
+    Sidebar: { items: ["Overview", "Reports", "Alerts", "Settings"] },
+    KPIGrid: { kpis: DEFAULT_KPIS.map((k) => ({ ...k })) },
+    LineChartCard: {
+      title: "Trend",
+      x: "period",
+      series: [{ field: "value", label: "Trend" }],
+      aggregate: "sum",
+      stacked: false,
+      legend: false,
+    },
+    BarChartCard: {
+      title: "Breakdown",
+      x: "segment",
+      series: [{ field: "value", label: "Breakdown" }],
+      aggregate: "sum",
+      stacked: false,
+      legend: false,
+    },
+    DataTable: {
+      title: "Spec",
+      columns: ["Component", "Purpose", "Status"],
+      rows: [
+        ["Sidebar", "Navigation", "Allowed"],
+        ["DataTable", "Structured data", "Allowed"],
+        ["SettingsModal", "Safe edits", "Allowed"],
+        ["Custom CSS", "Determinism", "Blocked"],
+      ],
+    },
+    SettingsModal: { title: "Settings" },
+    EmptyState: { title: "No data yet", description: "Ask for a table or metrics in chat." },
+    Hero: {
+      headline: "Describe a UI. Get code you can trust.",
+      subheadline: "Every screen is planned, validated and explained from a fixed set of components.",
+      primaryCta: "Get started",
+      secondaryCta: "See how it works",
+    },
+    PricingTable: {
+      title: "Pricing",
+      plans: [
+        {
+          name: "Starter",
+          price: "$0",
+          period: "/mo",
+          features: ["1 project", "Community support"],
+          cta: "Start free",
+        },
+        {
+          name: "Pro",
+          price: "$29",
+          period: "/mo",
+          features: ["Unlimited projects", "Version history", "Code export"],
+          cta: "Upgrade",
+          highlighted: true,
+        },
+        {
+          name: "Team",
+          price: "$99",
+          period: "/mo",
+          features: ["Everything in Pro", "Shared guardrails", "Priority support"],
+          cta: "Contact sales",
+        },
+      ],
+    },
+    FeatureGrid: {
+      title: "Features",
+      features: [
+        { title: "Fixed components", description: "Consistent visuals and controllable output." },
+        { title: "Planner, generator, explainer", description: "Every change is traceable and explained." },
+        { title: "Rollback", description: "Fast iteration without fear." },
+      ],
+    },
+    Testimonial: {
+      quote: "We shipped our internal tools in a week, and every change came with an explanation.",
+      author: "Sam Rivera",
+      role: "Head of Product, Northwind",
+    },
+    FormCard: {
+      title: "Contact us",
+      description: "We reply within one business day.",
+      fields: [
+        { name: "name", label: "Name", type: "text", required: true },
+        { name: "email", label: "Email", type: "email", placeholder: "you@example.com", required: true },
+        { name: "message", label: "Message", type: "textarea", required: false },
+      ],
+      submitLabel: "Send",
+    },
+    TabsPanel: {
+      tabs: [
+        { label: "Overview", content: "A summary of what this page covers." },
+        { label: "Details", content: "The specifics, one section at a time." },
+        { label: "History", content: "Earlier versions and what changed." },
+      ],
+    },
+    FAQAccordion: {
+      title: "Frequently asked questions",
+      items: [
+        {
+          question: "Can the model invent new components?",
+          answer: "No. Plans may only use whitelisted components, and every prop is validated.",
+        },
+        {
+          question: "Can I undo a change?",
+          answer: "Yes. Every prompt creates a version you can restore.",
+        },
+        {
+          question: "Can I export the code?",
+          answer: "Yes. The generated module uses the same UI primitives as the preview.",
+        },
+      ],
+    },
+    Footer: { text: "Built with a fixed set of components.", links: ["Docs", "Privacy", "Terms"] },
+  };
+  return defaults[type];
+}
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { inferColumnType, typeTable } from "./datasets";
+
+describe("typeTable", () => {
+  it("keeps values with a leading zero as strings", () => {
+    const { columns, rows } = typeTable(
+      ["Zip", "Units", "Share"],
+      [
+        ["02134", "1,200", "0.5"],
+        ["90210", "35", "0"],
+        ["00501", "7", "0.25"],
+      ],
+    );
+    assert.deepEqual(columns, [
+      { name: "Zip", type: "string" },
+      { name: "Units", type: "number" },
+      { name: "Share", type: "number" },
+    ]);
+    assert.deepEqual(rows.map((r) => r[0]), ["02134", "90210", "00501"]);
+    assert.deepEqual(rows.map((r) => r[1]), [1200, 35, 7]);
+  });
+
+  it("still reads zero and decimals below one as numbers", () => {
+    assert.equal(inferColumnType(["0", "0.75", "$0.99", "-0.5"]), "number");
+    assert.equal(inferColumnType(["007"]), "string");
+  });
+});
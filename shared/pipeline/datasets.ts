@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { clampTable } from "./tables";
+
+export const DATASET_COLUMN_TYPES = ["number", "date", "boolean", "string"] as const;
+export type DatasetColumnType = (typeof DATASET_COLUMN_TYPES)[number];
+
+export const datasetColumnSchema = z.object({
+  name: z.string().min(1).max(80),
+  type: z.enum(DATASET_COLUMN_TYPES),
+});
+
+export const datasetValueSchema = z.union([z.string().max(500), z.number(), z.boolean(), z.null()]);
+
+export type DatasetColumn = z.infer<typeof datasetColumnSchema>;
+export type DatasetValue = z.infer<typeof datasetValueSchema>;
+
+// What the pipeline needs from a stored dataset.
+export type DatasetData = {
+  id: string;
+  name: string;
+  columns: DatasetColumn[];
+  rows: DatasetValue[][];
+};
+
+// Uploaded datasets by id: what the studio has loaded, or what the server
+// looked up for a plan.
+export type DatasetLookup = ReadonlyMap<string, DatasetData>;
+
+export const MAX_DATASET_COLUMNS = 50;
+export const MAX_DATASET_ROWS = 5000;
+
+// Rows copied into a bound DataTable's props, so generated code has real
+// data without the whole dataset living in the plan.
+export const BOUND_TABLE_ROWS = 20;
+
+// A leading zero ("02134", "007") marks a code such as a zip code, not a
+// number, so such values stay strings and keep their zeros.
+const NUMBER_RE = /^[-+]?[$€£¥]?\s?(?:0|[1-9][\d,]*)(\.\d+)?%?$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[-+]\d{2}:?\d{2})?)?$|^\d{1,2}\/\d{1,2}\/\d{2,4}$/;
+const BOOLEAN_RE = /^(?:true|false|yes|no)$/i;
+
+function toNumber(raw: string) {
+  return Number(raw.replace(/[$€£¥,%\s]/g, ""));
+}
+
+function isNumber(v: unknown) {
+  return typeof v === "number" ? Number.isFinite(v) : typeof v === "string" && NUMBER_RE.test(v.trim());
+}
+
+function isDate(v: unknown) {
+  if (v instanceof Date) return !Number.isNaN(v.getTime());
+  return typeof v === "string" && DATE_RE.test(v.trim()) && !Number.isNaN(Date.parse(v.trim()));
+}
+
+function isBoolean(v: unknown) {
+  return typeof v === "boolean" || (typeof v === "string" && BOOLEAN_RE.test(v.trim()));
+}
+
+function isBlank(v: unknown) {
+  return v === null || v === undefined || (typeof v === "string" && v.trim() === "");
+}
+
+// The narrowest type every non-blank value fits; a column with no values is
+// a string column.
+export function inferColumnType(values: unknown[]): DatasetColumnType {
+  const present = values.filter((v) => !isBlank(v));
+  if (present.length === 0) return "string";
+  if (present.every(isNumber)) return "number";
+  if (present.every(isDate)) return "date";
+  if (present.every(isBoolean)) return "boolean";
+  return "string";
+}
+
+const US_DATE_RE = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/;
+const ZONED_RE = /(?:Z|[-+]\d{2}:?\d{2})$/;
+
+function pad(n: number, width = 2) {
+  return String(n).padStart(width, "0");
+}
+
+// ISO text that does not depend on the server's time zone: dates without a
+// zone keep their calendar day and wall-clock time; only zoned timestamps
+// (and Date objects, which are instants) are converted to UTC.
+function toIsoDate(v: unknown): string {
+  if (!(v instanceof Date)) {
+    const raw = String(v).trim();
+    const us = raw.match(US_DATE_RE);
+    if (us) {
+      // Two-digit years follow Date.parse: 00–49 is 20xx, 50–99 is 19xx.
+      const yy = Number(us[3]);
+      const year = us[3].length > 2 ? yy : yy < 50 ? 2000 + yy : 1900 + yy;
+      return `${pad(year, 4)}-${pad(Number(us[1]))}-${pad(Number(us[2]))}`;
+    }
+    if (!ZONED_RE.test(raw)) return raw.replace(" ", "T");
+    v = new Date(raw);
+  }
+  const iso = (v as Date).toISOString();
+  return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+}
+
+// Dates are kept as ISO strings so datasets round-trip through JSON.
+export function coerceValue(v: unknown, type: DatasetColumnType): DatasetValue {
+  if (isBlank(v)) return null;
+  switch (type) {
+    case "number":
+      return typeof v === "number" ? v : toNumber(String(v));
+    case "date":
+      return toIsoDate(v);
+    case "boolean":
+      return typeof v === "boolean" ? v : /^(?:true|yes)$/i.test(String(v).trim());
+    case "string":
+      return String(v).trim().slice(0, 500);
+  }
+}
+
+// Turns a header row plus raw cells (as read from CSV or a spreadsheet) into
+// typed columns. Blank and duplicate header names get positional names.
+export function typeTable(header: unknown[], cells: unknown[][]): Pick<DatasetData, "columns" | "rows"> {
+  const taken = new Set<string>();
+  const names = header.slice(0, MAX_DATASET_COLUMNS).map((h, i) => {
+    let name = isBlank(h) ? `Column ${i + 1}` : String(h).trim().slice(0, 80);
+    if (taken.has(name.toLowerCase())) name = `${name} (${i + 1})`;
+    taken.add(name.toLowerCase());
+    return name;
+  });
+
+  const body = cells.filter((r) => !r.every(isBlank)).slice(0, MAX_DATASET_ROWS);
+  const columns = names.map((name, i) => ({ name, type: inferColumnType(body.map((r) => r[i])) }));
+  const rows = body.map((r) => columns.map((c, i) => coerceValue(r[i], c.type)));
+  return { columns, rows };
+}
+
+export function formatValue(v: DatasetValue) {
+  if (v === null) return "";
+  if (typeof v === "number") return v.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  return String(v);
+}
+
+// A snapshot of the first rows in DataTable shape.
+export function datasetTable(dataset: DatasetData) {
+  return clampTable({
+    columns: dataset.columns.map((c) => c.name),
+    rows: dataset.rows.slice(0, BOUND_TABLE_ROWS).map((r) => r.map(formatValue)),
+  });
+}
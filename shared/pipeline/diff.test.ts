@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffLines, diffModels } from "./diff";
+import { buildModel } from "./index";
+import { planner } from "./planner";
+
+describe("diffLines", () => {
+  it("keeps common lines and marks the rest", () => {
+    assert.deepEqual(diffLines("a\nb\nc", "a\nc\nd"), [
+      { kind: "same", text: "a" },
+      { kind: "removed", text: "b" },
+      { kind: "same", text: "c" },
+      { kind: "added", text: "d" },
+    ]);
+  });
+});
+
+describe("diffModels", () => {
+  const before = buildModel(planner("Create a dashboard", undefined));
+
+  it("reports a model compared with itself as unchanged", () => {
+    const diff = diffModels(before, before);
+    assert.ok(diff.unchanged);
+    assert.deepEqual(diff.content, []);
+  });
+
+  it("reports removed components and the layout change they cause", () => {
+    const after = buildModel(planner("remove the table", before.plan), before.plan);
+    const diff = diffModels(before, after);
+    assert.ok(!diff.unchanged);
+    assert.deepEqual(diff.componentsRemoved, [{ id: "datatable-1", type: "DataTable" }]);
+    assert.deepEqual(diff.componentsAdded, []);
+    const main = diff.content.find((c) => c.path === "regions.main");
+    assert.equal(main?.kind, "changed");
+    assert.ok(main?.before?.includes("datatable-1") && !main.after?.includes("datatable-1"));
+  });
+
+  it("reports tone and prop changes by path", () => {
+    const after = buildModel(planner("make it playful, add KPI NPS 62", before.plan), before.plan);
+    const diff = diffModels(before, after);
+    assert.deepEqual(diff.tone, { before: before.plan.tone, after: "playful" });
+    const added = diff.content.filter((c) => c.kind === "added").map((c) => `${c.path}=${c.after}`);
+    assert.ok(added.some((p) => /^components\[kpigrid-1\]\.props\.kpis\[\d+\]\.label=NPS$/.test(p)), added.join("\n"));
+  });
+});
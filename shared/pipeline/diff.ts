@@ -0,0 +1,148 @@
+import { outlineNodes } from "./layout";
+import { REGION_NAMES, type ComponentInstance, type ComponentName, type UIModel, type UIPlan } from "./types";
+
+export type ValueChange<T> = { before: T; after: T };
+
+export type ContentChange = {
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: string;
+  after?: string;
+};
+
+export type InstanceRef = { id: string; type: ComponentName };
+
+export type LineChange = { kind: "same" | "added" | "removed"; text: string };
+
+export type ModelDiff = {
+  layout?: ValueChange<UIPlan["layout"]>;
+  tone?: ValueChange<UIPlan["tone"]>;
+  componentsAdded: InstanceRef[];
+  componentsRemoved: InstanceRef[];
+  content: ContentChange[];
+  code: LineChange[];
+  unchanged: boolean;
+};
+
+// Above this many lines on either side the code diff falls back to a plain
+// remove-all/add-all so the LCS table stays small.
+const MAX_DIFF_LINES = 2000;
+
+function compareField(out: ContentChange[], path: string, before?: string, after?: string) {
+  if (before === after) return;
+  if (before === undefined) out.push({ path, kind: "added", after });
+  else if (after === undefined) out.push({ path, kind: "removed", before });
+  else out.push({ path, kind: "changed", before, after });
+}
+
+// Flattens props into path → text leaves. Arrays of plain values (table
+// rows, nav items) stay one leaf so a changed cell reads as a changed row.
+function flattenProps(value: unknown, path: string, out: Map<string, string>) {
+  if (Array.isArray(value)) {
+    if (value.every((v) => typeof v !== "object" || v === null)) {
+      out.set(path, value.join(" | "));
+      return;
+    }
+    value.forEach((v, i) => flattenProps(v, `${path}[${i}]`, out));
+  } else if (typeof value === "object" && value !== null) {
+    for (const [key, v] of Object.entries(value)) flattenProps(v, `${path}.${key}`, out);
+  } else if (value !== undefined) {
+    out.set(path, String(value));
+  }
+}
+
+function diffProps(out: ContentChange[], before: ComponentInstance, after: ComponentInstance) {
+  const prefix = `components[${after.id}].props`;
+  const a = new Map<string, string>();
+  const b = new Map<string, string>();
+  flattenProps(before.props, prefix, a);
+  flattenProps(after.props, prefix, b);
+
+  const paths = Array.from(new Set([...Array.from(a.keys()), ...Array.from(b.keys())]));
+  for (const path of paths) compareField(out, path, a.get(path), b.get(path));
+}
+
+// Longest-common-subsequence line diff; good enough for generated output of
+// a few hundred lines.
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((text) => ({ kind: "removed" as const, text })),
+      ...b.map((text) => ({ kind: "added" as const, text })),
+    ];
+  }
+
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const out: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ kind: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      out.push({ kind: "removed", text: a[i++] });
+    } else {
+      out.push({ kind: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ kind: "removed", text: a[i++] });
+  while (j < b.length) out.push({ kind: "added", text: b[j++] });
+  return out;
+}
+
+export function diffModels(before: UIModel, after: UIModel): ModelDiff {
+  const a = before.plan;
+  const b = after.plan;
+
+  const content: ContentChange[] = [];
+  compareField(content, "content.title", a.content.title, b.content.title);
+  compareField(content, "content.subtitle", a.content.subtitle, b.content.subtitle);
+  for (const region of REGION_NAMES) {
+    const before = outlineNodes(a.regions[region]) || undefined;
+    const after = outlineNodes(b.regions[region]) || undefined;
+    compareField(content, `regions.${region}`, before, after);
+  }
+
+  // Instances are matched by id; an id whose type changed counts as removed + added.
+  const beforeById = new Map(a.components.map((c) => [c.id, c]));
+  const afterById = new Map(b.components.map((c) => [c.id, c]));
+  const same = (c: ComponentInstance, other?: ComponentInstance) => other?.type === c.type;
+  const ref = (c: ComponentInstance): InstanceRef => ({ id: c.id, type: c.type });
+
+  for (const c of b.components) {
+    const prev = beforeById.get(c.id);
+    if (prev && same(c, prev)) diffProps(content, prev, c);
+  }
+
+  const diff: ModelDiff = {
+    layout: a.layout !== b.layout ? { before: a.layout, after: b.layout } : undefined,
+    tone: a.tone !== b.tone ? { before: a.tone, after: b.tone } : undefined,
+    componentsAdded: b.components.filter((c) => !same(c, beforeById.get(c.id))).map(ref),
+    componentsRemoved: a.components.filter((c) => !same(c, afterById.get(c.id))).map(ref),
+    content,
+    code: diffLines(before.code, after.code),
+    unchanged: false,
+  };
+  diff.unchanged =
+    !diff.layout &&
+    !diff.tone &&
+    diff.componentsAdded.length === 0 &&
+    diff.componentsRemoved.length === 0 &&
+    content.length === 0 &&
+    diff.code.every((l) => l.kind === "same");
+  return diff;
+}
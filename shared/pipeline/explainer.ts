@@ -0,0 +1,187 @@
+import type { ChartProps } from "./components";
+import { componentRank, leafIds, splitColumns } from "./layout";
+import { customComponent, customComponents } from "./registry";
+import { hasComponent, instancesOf, type ComponentName, type LayoutNode, type UIPlan } from "./types";
+
+const LABELS: Partial<Record<ComponentName, string>> = {
+  KPIGrid: "KPIs",
+  LineChartCard: "charts",
+  BarChartCard: "charts",
+  DataTable: "table",
+  EmptyState: "empty state",
+  SettingsModal: "settings",
+  Hero: "hero",
+  PricingTable: "pricing",
+  FeatureGrid: "features",
+  Testimonial: "testimonial",
+  FormCard: "form",
+  TabsPanel: "tabs",
+  FAQAccordion: "FAQ",
+  Footer: "footer links",
+};
+
+const NOUNS: Record<ComponentName, string> = {
+  AppShell: "app shell",
+  TopNav: "top navigation",
+  Sidebar: "sidebar",
+  KPIGrid: "KPI grid",
+  LineChartCard: "line chart",
+  BarChartCard: "bar chart",
+  DataTable: "table",
+  SettingsModal: "settings modal",
+  EmptyState: "empty state",
+  Hero: "hero",
+  PricingTable: "pricing table",
+  FeatureGrid: "feature grid",
+  Testimonial: "testimonial",
+  FormCard: "form card",
+  TabsPanel: "tabs panel",
+  FAQAccordion: "FAQ accordion",
+  Footer: "footer",
+};
+
+function nounOf(type: ComponentName) {
+  return NOUNS[type] ?? customComponent(type)!.noun;
+}
+
+function count(n: number, one: string, many: string) {
+  return n === 1 ? one : `${n} ${many}`;
+}
+
+function list(items: string[]) {
+  return items.length > 1 ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}` : (items[0] ?? "");
+}
+
+// "Revenue by region (sum, stacked, legend)"
+function describeChart(props: ChartProps) {
+  const flags = [props.aggregate, props.stacked ? "stacked" : "", props.legend ? "legend" : ""].filter(Boolean);
+  return `${props.title} (${flags.join(", ")})`;
+}
+
+// "sidebar, 2 tables" for the instances in `prev` that `plan` no longer has.
+function removedSince(plan: UIPlan, prev: UIPlan) {
+  const kept = new Set(plan.components.map((c) => c.id));
+  const counts = new Map<ComponentName, number>();
+  for (const c of prev.components) {
+    if (!kept.has(c.id)) counts.set(c.type, (counts.get(c.type) ?? 0) + 1);
+  }
+  return Array.from(counts, ([type, n]) => count(n, nounOf(type), `${nounOf(type)}s`)).join(", ");
+}
+
+// With `prev`, the explanation also names what the change removed.
+export function explainer(plan: UIPlan, prev?: UIPlan): string {
+  const parts: string[] = [];
+  parts.push(`Layout: ${plan.layout}. Tone: ${plan.tone}.`);
+
+  const removed = prev ? removedSince(plan, prev) : "";
+  if (removed) parts.push(`Removed: ${removed}.`);
+
+  if (hasComponent(plan, "Sidebar")) {
+    parts.push("Sidebar was selected for predictable navigation structure.");
+  }
+
+  for (const hero of instancesOf(plan, "Hero")) {
+    parts.push(`Hero leads with “${hero.props.headline}” and one primary call to action (${hero.props.primaryCta}).`);
+  }
+
+  const kpiGrids = instancesOf(plan, "KPIGrid");
+  if (kpiGrids.length > 0) {
+    const labels = kpiGrids.flatMap((g) => g.props.kpis.map((k) => k.label));
+    parts.push(
+      `KPI grid surfaces ${count(labels.length, "one metric", "metrics")}${labels.length ? ` (${labels.join(", ")})` : ""} at a glance without custom styling.`,
+    );
+  }
+
+  const charts = [...instancesOf(plan, "LineChartCard"), ...instancesOf(plan, "BarChartCard")];
+  if (charts.length > 0) {
+    parts.push(
+      `${count(charts.length, "A chart card", "chart cards")} ${charts.length === 1 ? "shows" : "show"} trends with the shared chart primitives: ${charts.map((c) => describeChart(c.props)).join(", ")}.`,
+    );
+  }
+
+  const tables = instancesOf(plan, "DataTable");
+  if (tables.length === 1) {
+    parts.push("Table is used for structured information and deterministic rendering.");
+  } else if (tables.length > 1) {
+    parts.push(
+      `${tables.length} tables (${tables.map((t) => t.props.title).join(", ")}) each carry their own columns and rows.`,
+    );
+  }
+
+  const bound = plan.components.filter((c) => "dataset" in c.props && c.props.dataset);
+  if (bound.length > 0) {
+    const nouns = Array.from(new Set(bound.map((c) => nounOf(c.type))));
+    parts.push(`The ${list(nouns)} ${bound.length === 1 ? "reads" : "read"} from an uploaded dataset.`);
+  }
+
+  for (const grid of instancesOf(plan, "FeatureGrid")) {
+    parts.push(`Feature grid presents ${count(grid.props.features.length, "one feature", "features")} as equal cards.`);
+  }
+
+  for (const tabs of instancesOf(plan, "TabsPanel")) {
+    parts.push(`Tabs split related content into ${list(tabs.props.tabs.map((t) => t.label))}, one panel at a time.`);
+  }
+
+  for (const pricing of instancesOf(plan, "PricingTable")) {
+    const names = pricing.props.plans.map((p) => p.name);
+    const highlighted = pricing.props.plans.find((p) => p.highlighted);
+    parts.push(
+      `Pricing table compares ${count(names.length, "one plan", "plans")} (${names.join(", ")})${highlighted ? `, highlighting ${highlighted.name}` : ""}.`,
+    );
+  }
+
+  for (const testimonial of instancesOf(plan, "Testimonial")) {
+    parts.push(`Testimonial from ${testimonial.props.author} adds social proof.`);
+  }
+
+  for (const faq of instancesOf(plan, "FAQAccordion")) {
+    parts.push(
+      `FAQ accordion answers ${count(faq.props.items.length, "one question", "questions")} without lengthening the page.`,
+    );
+  }
+
+  for (const form of instancesOf(plan, "FormCard")) {
+    const required = form.props.fields.filter((f) => f.required).length;
+    parts.push(
+      `Form card collects ${list(form.props.fields.map((f) => f.label.toLowerCase()))} with the shared form primitives${required ? `, validating ${count(required, "one required field", "required fields")}` : ""}.`,
+    );
+  }
+
+  for (const custom of customComponents()) {
+    const props = plan.components.filter((c) => c.type === custom.name).map((c) => c.props);
+    if (props.length > 0 && custom.explain) parts.push(custom.explain(props));
+  }
+
+  if (hasComponent(plan, "SettingsModal")) {
+    parts.push("Settings modal enables iterative changes while keeping a strict component whitelist.");
+  }
+
+  parts.push(...arrangement(plan));
+
+  parts.push("All output is constrained to a fixed set of components for consistency and safety.");
+  return parts.join(" ");
+}
+
+// Only mentions the layout when it departs from the default stacking.
+function arrangement(plan: UIPlan): string[] {
+  const typeOf = new Map(plan.components.map((c) => [c.id, c.type]));
+  const labelOf = (type: ComponentName) => LABELS[type] ?? customComponent(type)?.noun ?? type;
+  const describe = (nodes: LayoutNode[]) =>
+    Array.from(new Set(leafIds(nodes).map((id) => labelOf(typeOf.get(id)!)))).join(", ");
+  const out: string[] = [];
+
+  const columns = splitColumns(plan.regions.main);
+  if (columns) {
+    out.push(
+      `Main area is split into ${columns.length} columns (${columns.map((c) => describe(c.children)).join(" | ")}).`,
+    );
+  } else {
+    const ranks = leafIds(plan.regions.main).map((id) => componentRank(typeOf.get(id)!));
+    if (ranks.some((r, i) => i > 0 && r < ranks[i - 1])) {
+      out.push(`Main area reads top to bottom: ${describe(plan.regions.main)}.`);
+    }
+  }
+
+  if (plan.regions.footer.length > 0) out.push(`Footer holds ${describe(plan.regions.footer)}.`);
+  return out;
+}
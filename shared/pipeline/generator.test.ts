@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { DatasetData } from "./datasets";
+import { generator } from "./generator";
+import { bindDataset, planner } from "./planner";
+
+const sales: DatasetData = {
+  id: "ds-1",
+  name: "sales.csv",
+  columns: [
+    { name: "Region", type: "string" },
+    { name: "Revenue", type: "number" },
+  ],
+  rows: [
+    ["Nordics", 1200],
+    ["Benelux", 800],
+    ["Nordics", 300],
+  ],
+};
+
+// The CHART_DATA literal the generated module declares.
+function chartData(code: string): Record<string, { series: Array<{ field: string }>; data: unknown[] }> {
+  const m = code.match(/const CHART_DATA: [^=]+= (\{[\s\S]*?\n\});/);
+  assert.ok(m, "generated code has no CHART_DATA");
+  return JSON.parse(m[1]);
+}
+
+describe("generator chart data", () => {
+  const plan = bindDataset(planner("Create a dashboard with a bar chart of revenue by region", undefined), sales);
+  const bar = plan.components.find((c) => c.type === "BarChartCard")!;
+
+  it("plots the bound dataset when it is given", () => {
+    const { code } = generator(plan, "module", new Map([[sales.id, sales]]));
+    const entry = chartData(code)[bar.id];
+    assert.deepEqual(entry.series.map((s) => s.field), ["Revenue"]);
+    assert.deepEqual(entry.data, [
+      { x: "Nordics", s0: 1500 },
+      { x: "Benelux", s0: 800 },
+    ]);
+    assert.match(code, new RegExp(`\\{\\.\\.\\.CHART_DATA\\["${bar.id}"\\]\\}`));
+  });
+
+  it("plots sample rows when the dataset is not given", () => {
+    const entry = chartData(generator(plan).code)[bar.id];
+    assert.deepEqual(entry.data.map((p) => (p as { x: string }).x), ["North", "South", "East", "West"]);
+  });
+});
@@ -0,0 +1,832 @@
+import { chartData } from "./charts";
+import type { ChartProps } from "./components";
+import type { DatasetLookup } from "./datasets";
+import { CHART_COMPONENTS, COLUMN_CLASS, ROW_CLASS, spanClass, toneClass } from "./presentation";
+import { customComponent } from "./registry";
+import { REGION_NAMES, type ComponentInstance, type ComponentName, type LayoutNode, type UIPlan } from "./types";
+
+// "module" emits a complete .tsx page built on @/components/ui primitives;
+// "template" is the compact pseudo-JSX outline.
+export type GeneratorTarget = "module" | "template";
+
+type Snippet = {
+  imports: Array<[module: string, name: string]>;
+  // TypeScript shape of the instance props, mirroring COMPONENT_PROP_SCHEMAS.
+  propsType: string;
+  // Name of the component the definition declares.
+  ident?: string;
+  definition?: string[];
+  // How one instance is rendered; defaults to spreading its props into `ident`.
+  usage?: (instance: ComponentInstance) => string[];
+};
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+const spread = (ident: string, instance: ComponentInstance) =>
+  `<${ident} {...propsOf(${JSON.stringify(instance.id)}, ${JSON.stringify(instance.type)})} />`;
+
+const CHART_IMPORTS: Snippet["imports"] = [
+  ["@/components/ui/chart", "ChartContainer"],
+  ["@/components/ui/chart", "ChartLegend"],
+  ["@/components/ui/chart", "ChartLegendContent"],
+  ["@/components/ui/chart", "ChartTooltip"],
+  ["@/components/ui/chart", "ChartTooltipContent"],
+  ["@/components/ui/chart", "type ChartConfig"],
+  ["recharts", "CartesianGrid"],
+  ["recharts", "XAxis"],
+  ["recharts", "YAxis"],
+];
+
+const CHART_PROPS_TYPE = [
+  "{",
+  "  title: string;",
+  "  dataset?: string;",
+  "  x: string;",
+  "  series: ChartSeries[];",
+  '  aggregate: "sum" | "avg" | "count";',
+  "  stacked: boolean;",
+  "  legend: boolean;",
+  "}",
+].join("\n");
+
+// Chart cards get their points, and the series those plot, from CHART_DATA,
+// keyed by instance id.
+const chartUsage = (ident: string, instance: ComponentInstance) =>
+  `<${ident} {...propsOf(${JSON.stringify(instance.id)}, ${JSON.stringify(instance.type)})} {...CHART_DATA[${JSON.stringify(instance.id)}]} />`;
+
+const SNIPPETS: Record<ComponentName, Snippet> = {
+  AppShell: { imports: [], propsType: "Record<string, never>", usage: () => [] },
+  TopNav: {
+    imports: [["@/components/ui/badge", "Badge"]],
+    propsType: "Record<string, never>",
+    definition: [
+      "function TopNav({ title, subtitle }: { title: string; subtitle?: string }) {",
+      "  return (",
+      '    <header className={`p-4 border-b ${TONE_CLASS}`}>',
+      '      <div className="flex items-start justify-between gap-3">',
+      "        <div>",
+      '          <h1 className="text-lg font-semibold">{title}</h1>',
+      '          {subtitle ? <p className="text-sm text-muted-foreground">{subtitle}</p> : null}',
+      "        </div>",
+      '        <div className="flex items-center gap-2">',
+      '          <Badge variant="secondary">{plan.layout}</Badge>',
+      '          <Badge variant="outline">{plan.tone}</Badge>',
+      "        </div>",
+      "      </div>",
+      "    </header>",
+      "  );",
+      "}",
+    ],
+    usage: () => ["<TopNav title={plan.content.title} subtitle={plan.content.subtitle} />"],
+  },
+  Sidebar: {
+    imports: [
+      ["@/components/ui/sidebar", "Sidebar"],
+      ["@/components/ui/sidebar", "SidebarContent"],
+      ["@/components/ui/sidebar", "SidebarGroup"],
+      ["@/components/ui/sidebar", "SidebarGroupContent"],
+      ["@/components/ui/sidebar", "SidebarGroupLabel"],
+      ["@/components/ui/sidebar", "SidebarMenu"],
+      ["@/components/ui/sidebar", "SidebarMenuButton"],
+      ["@/components/ui/sidebar", "SidebarMenuItem"],
+      ["@/components/ui/sidebar", "SidebarProvider"],
+    ],
+    propsType: "{ items: string[] }",
+    ident: "PageSidebar",
+    definition: [
+      "function PageSidebar({ items }: SidebarProps) {",
+      "  return (",
+      '    <SidebarProvider className="min-h-0 h-full" style={{ "--sidebar-width": "100%" } as CSSProperties}>',
+      '      <Sidebar collapsible="none" className="bg-transparent">',
+      "        <SidebarContent>",
+      "          <SidebarGroup>",
+      "            <SidebarGroupLabel>Navigation</SidebarGroupLabel>",
+      "            <SidebarGroupContent>",
+      "              <SidebarMenu>",
+      "                {items.map((label, i) => (",
+      "                  <SidebarMenuItem key={label}>",
+      "                    <SidebarMenuButton isActive={i === 0}>{label}</SidebarMenuButton>",
+      "                  </SidebarMenuItem>",
+      "                ))}",
+      "              </SidebarMenu>",
+      "            </SidebarGroupContent>",
+      "          </SidebarGroup>",
+      "        </SidebarContent>",
+      "      </Sidebar>",
+      "    </SidebarProvider>",
+      "  );",
+      "}",
+    ],
+  },
+  KPIGrid: {
+    imports: [],
+    propsType: "{ kpis: Array<{ label: string; value: string; delta?: string }> }",
+    ident: "KPIGrid",
+    definition: [
+      "function KPIGrid({ kpis }: KPIGridProps) {",
+      "  return (",
+      '    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">',
+      "      {kpis.map((k) => (",
+      '        <div key={k.label} className="rounded-xl border bg-card p-3">',
+      '          <div className="text-xs text-muted-foreground">{k.label}</div>',
+      '          <div className="text-lg font-semibold">{k.value}</div>',
+      '          {k.delta ? <div className="text-xs text-muted-foreground">{k.delta}</div> : null}',
+      "        </div>",
+      "      ))}",
+      "    </div>",
+      "  );",
+      "}",
+    ],
+  },
+  LineChartCard: {
+    imports: [
+      ...CHART_IMPORTS,
+      ["recharts", "Area"],
+      ["recharts", "AreaChart"],
+      ["recharts", "Line"],
+      ["recharts", "LineChart"],
+    ],
+    propsType: CHART_PROPS_TYPE,
+    ident: "LineChartCard",
+    usage: (instance) => [chartUsage("LineChartCard", instance)],
+    definition: [
+      "// Stacked line charts draw as stacked areas so the series visibly add up.",
+      "function LineChartCard({ title, series, stacked, legend, data }: LineChartCardProps & { data: ChartPoint[] }) {",
+      "  const keys = series.map((_, i) => `s${i}`);",
+      "  return (",
+      '    <div className="rounded-xl border bg-card p-3">',
+      '      <div className="text-sm font-medium mb-2">{title}</div>',
+      '      <ChartContainer config={chartConfig(series)} className="aspect-auto h-36 w-full">',
+      "        {stacked ? (",
+      "          <AreaChart data={data} margin={{ left: 0, right: 8, top: 4 }}>",
+      "            <CartesianGrid vertical={false} />",
+      '            <XAxis dataKey="x" tickLine={false} axisLine={false} tickMargin={8} />',
+      "            <YAxis width={32} tickLine={false} axisLine={false} />",
+      "            <ChartTooltip content={<ChartTooltipContent />} />",
+      "            {legend ? <ChartLegend content={<ChartLegendContent />} /> : null}",
+      "            {keys.map((key) => (",
+      "              <Area",
+      "                key={key}",
+      "                dataKey={key}",
+      '                type="monotone"',
+      "                stroke={`var(--color-${key})`}",
+      "                fill={`var(--color-${key})`}",
+      "                fillOpacity={0.3}",
+      '                stackId="stack"',
+      "              />",
+      "            ))}",
+      "          </AreaChart>",
+      "        ) : (",
+      "          <LineChart data={data} margin={{ left: 0, right: 8, top: 4 }}>",
+      "            <CartesianGrid vertical={false} />",
+      '            <XAxis dataKey="x" tickLine={false} axisLine={false} tickMargin={8} />',
+      "            <YAxis width={32} tickLine={false} axisLine={false} />",
+      "            <ChartTooltip content={<ChartTooltipContent />} />",
+      "            {legend ? <ChartLegend content={<ChartLegendContent />} /> : null}",
+      "            {keys.map((key) => (",
+      '              <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot={false} />',
+      "            ))}",
+      "          </LineChart>",
+      "        )}",
+      "      </ChartContainer>",
+      "    </div>",
+      "  );",
+      "}",
+    ],
+  },
+  BarChartCard: {
+    imports: [...CHART_IMPORTS, ["recharts", "Bar"], ["recharts", "BarChart"]],
+    propsType: CHART_PROPS_TYPE,
+    ident: "BarChartCard",
+    usage: (instance) => [chartUsage("BarChartCard", instance)],
+    definition: [
+      "function BarChartCard({ title, series, stacked, legend, data }: BarChartCardProps & { data: ChartPoint[] }) {",
+      "  return (",
+      '    <div className="rounded-xl border bg-card p-3">',
+      '      <div className="text-sm font-medium mb-2">{title}</div>',
+      '      <ChartContainer config={chartConfig(series)} className="aspect-auto h-36 w-full">',
+      "        <BarChart data={data} margin={{ left: 0, right: 8, top: 4 }}>",
+      "          <CartesianGrid vertical={false} />",
+      '          <XAxis dataKey="x" tickLine={false} axisLine={false} tickMargin={8} />',
+      "          <YAxis width={32} tickLine={false} axisLine={false} />",
+      "          <ChartTooltip content={<ChartTooltipContent />} />",
+      "          {legend ? <ChartLegend content={<ChartLegendContent />} /> : null}",
+      "          {series.map((_, i) => (",
+      "            <Bar",
+      "              key={i}",
+      "              dataKey={`s${i}`}",
+      "              fill={`var(--color-s${i})`}",
+      "              radius={4}",
+      '              stackId={stacked ? "stack" : undefined}',
+      "            />",
+      "          ))}",
+      "        </BarChart>",
+      "      </ChartContainer>",
+      "    </div>",
+      "  );",
+      "}",
+    ],
+  },
+  DataTable: {
+    imports: [
+      ["@/components/ui/table", "Table"],
+      ["@/components/ui/table", "TableBody"],
+      ["@/components/ui/table", "TableCell"],
+      ["@/components/ui/table", "TableHead"],
+      ["@/components/ui/table", "TableHeader"],
+      ["@/components/ui/table", "TableRow"],
+    ],
+    propsType: "{ title: string; columns: string[]; rows: string[][]; dataset?: string }",
+    ident: "DataTable",
+    definition: [
+      "function DataTable({ title, columns, rows }: DataTableProps) {",
+      "  return (",
+      '    <div className="rounded-xl border bg-card p-3 overflow-auto">',
+      '      <div className="text-sm font-medium mb-3">{title}</div>',
+      "      <Table>",
+      "        <TableHeader>",
+      "          <TableRow>",
+      "            {columns.map((c) => (",
+      "              <TableHead key={c}>{c}</TableHead>",
+      "            ))}",
+      "          </TableRow>",
+      "        </TableHeader>",
+      "        <TableBody>",
+      "          {rows.map((r, ri) => (",
+      "            <TableRow key={ri}>",
+      "              {r.map((cell, ci) => (",
+      "                <TableCell key={ci}>{cell}</TableCell>",
+      "              ))}",
+      "            </TableRow>",
+      "          ))}",
+      "        </TableBody>",
+      "      </Table>",
+      "    </div>",
+      "  );",
+      "}",
+    ],
+  },
+  EmptyState: {
+    imports: [
+      ["@/components/ui/empty", "Empty"],
+      ["@/components/ui/empty", "EmptyDescription"],
+      ["@/components/ui/empty", "EmptyHeader"],
+      ["@/components/ui/empty", "EmptyTitle"],
+    ],
+    propsType: "{ title: string; description: string }",
+    ident: "EmptyState",
+    definition: [
+      "function EmptyState({ title, description }: EmptyStateProps) {",
+      "  return (",
+      '    <Empty className="rounded-xl border">',
+      "      <EmptyHeader>",
+      "        <EmptyTitle>{title}</EmptyTitle>",
+      "        <EmptyDescription>{description}</EmptyDescription>",
+      "      </EmptyHeader>",
+      "    </Empty>",
+      "  );",
+      "}",
+    ],
+  },
+  SettingsModal: {
+    imports: [
+      ["@/components/ui/button", "Button"],
+      ["@/components/ui/dialog", "Dialog"],
+      ["@/components/ui/dialog", "DialogContent"],
+      ["@/components/ui/dialog", "DialogDescription"],
+      ["@/components/ui/dialog", "DialogFooter"],
+      ["@/components/ui/dialog", "DialogHeader"],
+      ["@/components/ui/dialog", "DialogTitle"],
+      ["@/components/ui/dialog", "DialogTrigger"],
+      ["@/components/ui/input", "Input"],
+      ["@/components/ui/label", "Label"],
+      ["@/components/ui/switch", "Switch"],
+    ],
+    propsType: "{ title: string }",
+    ident: "SettingsModal",
+    definition: [
+      "function SettingsModal({ title }: SettingsModalProps) {",
+      "  return (",
+      "    <Dialog>",
+      "      <DialogTrigger asChild>",
+      '        <Button variant="secondary">Open {title.toLowerCase()}</Button>',
+      "      </DialogTrigger>",
+      "      <DialogContent>",
+      "        <DialogHeader>",
+      "          <DialogTitle>{title}</DialogTitle>",
+      "          <DialogDescription>Preferences for {plan.content.title}.</DialogDescription>",
+      "        </DialogHeader>",
+      '        <div className="space-y-4">',
+      '          <div className="space-y-2">',
+      '            <Label htmlFor="settings-name">Display name</Label>',
+      '            <Input id="settings-name" defaultValue={plan.content.title} />',
+      "          </div>",
+      '          <div className="flex items-center justify-between">',
+      '            <Label htmlFor="settings-notifications">Email notifications</Label>',
+      '            <Switch id="settings-notifications" defaultChecked />',
+      "          </div>",
+      "        </div>",
+      "        <DialogFooter>",
+      "          <Button>Save changes</Button>",
+      "        </DialogFooter>",
+      "      </DialogContent>",
+      "    </Dialog>",
+      "  );",
+      "}",
+    ],
+    usage: (instance) => ["<div>", `  ${spread("SettingsModal", instance)}`, "</div>"],
+  },
+  Hero: {
+    imports: [
+      ["@/components/ui/button", "Button"],
+    ],
+    propsType: "{ headline: string; subheadline: string; primaryCta: string; secondaryCta?: string }",
+    ident: "Hero",
+    definition: [
+      "function Hero({ headline, subheadline, primaryCta, secondaryCta }: HeroProps) {",
+      "  return (",
+      "    <section className={`rounded-xl border px-6 py-10 text-center ${TONE_CLASS}`}>",
+      '      <h2 className="text-3xl font-semibold tracking-tight">{headline}</h2>',
+      '      {subheadline ? <p className="mx-auto mt-3 max-w-2xl text-muted-foreground">{subheadline}</p> : null}',
+      '      <div className="mt-6 flex justify-center gap-2">',
+      "        <Button>{primaryCta}</Button>",
+      '        {secondaryCta ? <Button variant="outline">{secondaryCta}</Button> : null}',
+      "      </div>",
+      "    </section>",
+      "  );",
+      "}",
+    ],
+  },
+  PricingTable: {
+    imports: [
+      ["@/components/ui/badge", "Badge"],
+      ["@/components/ui/button", "Button"],
+    ],
+    propsType: [
+      "{",
+      "  title: string;",
+      "  plans: Array<{",
+      "    name: string;",
+      "    price: string;",
+      "    period?: string;",
+      "    features: string[];",
+      "    cta: string;",
+      "    highlighted?: boolean;",
+      "  }>;",
+      "}",
+    ].join("\n"),
+    ident: "PricingTable",
+    definition: [
+      "function PricingTable({ title, plans }: PricingTableProps) {",
+      "  return (",
+      '    <section className="space-y-3">',
+      '      <div className="text-sm font-medium">{title}</div>',
+      '      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">',
+      "        {plans.map((p) => (",
+      "          <div",
+      "            key={p.name}",
+      '            className={`flex flex-col rounded-xl border bg-card p-4 ${p.highlighted ? "border-primary shadow-sm" : ""}`}',
+      "          >",
+      '            <div className="flex items-center justify-between gap-2">',
+      '              <div className="font-medium">{p.name}</div>',
+      "              {p.highlighted ? <Badge>Popular</Badge> : null}",
+      "            </div>",
+      '            <div className="mt-2">',
+      '              <span className="text-2xl font-semibold">{p.price}</span>',
+      '              {p.period ? <span className="text-sm text-muted-foreground">{p.period}</span> : null}',
+      "            </div>",
+      '            <ul className="mt-3 flex-1 space-y-1 text-sm text-muted-foreground">',
+      "              {p.features.map((f) => (",
+      "                <li key={f}>{f}</li>",
+      "              ))}",
+      "            </ul>",
+      '            <Button className="mt-4" variant={p.highlighted ? "default" : "outline"}>',
+      "              {p.cta}",
+      "            </Button>",
+      "          </div>",
+      "        ))}",
+      "      </div>",
+      "    </section>",
+      "  );",
+      "}",
+    ],
+  },
+  FeatureGrid: {
+    imports: [],
+    propsType: "{ title: string; features: Array<{ title: string; description: string }> }",
+    ident: "FeatureGrid",
+    definition: [
+      "function FeatureGrid({ title, features }: FeatureGridProps) {",
+      "  return (",
+      '    <section className="space-y-3">',
+      '      <div className="text-sm font-medium">{title}</div>',
+      '      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">',
+      "        {features.map((f) => (",
+      '          <div key={f.title} className="rounded-xl border bg-card p-4">',
+      '            <div className="font-medium">{f.title}</div>',
+      '            <div className="mt-1 text-sm text-muted-foreground">{f.description}</div>',
+      "          </div>",
+      "        ))}",
+      "      </div>",
+      "    </section>",
+      "  );",
+      "}",
+    ],
+  },
+  Testimonial: {
+    imports: [
+      ["@/components/ui/avatar", "Avatar"],
+      ["@/components/ui/avatar", "AvatarFallback"],
+    ],
+    propsType: "{ quote: string; author: string; role?: string }",
+    ident: "Testimonial",
+    definition: [
+      "function Testimonial({ quote, author, role }: TestimonialProps) {",
+      "  const initials = author",
+      "    .split(/\\s+/)",
+      "    .map((w) => w.charAt(0))",
+      '    .join("")',
+      "    .slice(0, 2)",
+      "    .toUpperCase();",
+      "  return (",
+      '    <figure className="rounded-xl border bg-card p-4">',
+      '      <blockquote className="text-base">“{quote}”</blockquote>',
+      '      <figcaption className="mt-3 flex items-center gap-3">',
+      "        <Avatar>",
+      "          <AvatarFallback>{initials}</AvatarFallback>",
+      "        </Avatar>",
+      "        <div>",
+      '          <div className="text-sm font-medium">{author}</div>',
+      '          {role ? <div className="text-xs text-muted-foreground">{role}</div> : null}',
+      "        </div>",
+      "      </figcaption>",
+      "    </figure>",
+      "  );",
+      "}",
+    ],
+  },
+  FormCard: {
+    imports: [
+      ["@/components/ui/button", "Button"],
+      ["@/components/ui/form", "Form"],
+      ["@/components/ui/form", "FormControl"],
+      ["@/components/ui/form", "FormField"],
+      ["@/components/ui/form", "FormItem"],
+      ["@/components/ui/form", "FormLabel"],
+      ["@/components/ui/form", "FormMessage"],
+      ["@/components/ui/input", "Input"],
+      ["@/components/ui/textarea", "Textarea"],
+      ["react-hook-form", "useForm"],
+    ],
+    propsType: [
+      "{",
+      "  title: string;",
+      "  description?: string;",
+      "  fields: Array<{",
+      "    name: string;",
+      "    label: string;",
+      '    type: "text" | "email" | "password" | "number" | "textarea";',
+      "    placeholder?: string;",
+      "    required: boolean;",
+      "  }>;",
+      "  submitLabel: string;",
+      "}",
+    ].join("\n"),
+    ident: "FormCard",
+    definition: [
+      "function FormCard({ title, description, fields, submitLabel }: FormCardProps) {",
+      "  const form = useForm<Record<string, string>>({",
+      '    defaultValues: Object.fromEntries(fields.map((f) => [f.name, ""])),',
+      "  });",
+      "  return (",
+      '    <div className="rounded-xl border bg-card p-4">',
+      '      <div className="text-sm font-medium">{title}</div>',
+      '      {description ? <div className="text-sm text-muted-foreground">{description}</div> : null}',
+      "      <Form {...form}>",
+      '        <form className="mt-3 space-y-3" onSubmit={form.handleSubmit(() => form.reset())}>',
+      "          {fields.map((f) => (",
+      "            <FormField",
+      "              key={f.name}",
+      "              control={form.control}",
+      "              name={f.name}",
+      "              rules={f.required ? { required: `${f.label} is required` } : undefined}",
+      "              render={({ field }) => (",
+      "                <FormItem>",
+      "                  <FormLabel>{f.label}</FormLabel>",
+      "                  <FormControl>",
+      '                    {f.type === "textarea" ? (',
+      "                      <Textarea placeholder={f.placeholder} {...field} />",
+      "                    ) : (",
+      "                      <Input type={f.type} placeholder={f.placeholder} {...field} />",
+      "                    )}",
+      "                  </FormControl>",
+      "                  <FormMessage />",
+      "                </FormItem>",
+      "              )}",
+      "            />",
+      "          ))}",
+      '          <Button type="submit">{submitLabel}</Button>',
+      "        </form>",
+      "      </Form>",
+      "    </div>",
+      "  );",
+      "}",
+    ],
+  },
+  TabsPanel: {
+    imports: [
+      ["@/components/ui/tabs", "Tabs"],
+      ["@/components/ui/tabs", "TabsContent"],
+      ["@/components/ui/tabs", "TabsList"],
+      ["@/components/ui/tabs", "TabsTrigger"],
+    ],
+    propsType: "{ tabs: Array<{ label: string; content: string }> }",
+    ident: "TabsPanel",
+    definition: [
+      "function TabsPanel({ tabs }: TabsPanelProps) {",
+      "  return (",
+      '    <Tabs defaultValue={tabs[0].label} className="rounded-xl border bg-card p-3">',
+      "      <TabsList>",
+      "        {tabs.map((t) => (",
+      "          <TabsTrigger key={t.label} value={t.label}>",
+      "            {t.label}",
+      "          </TabsTrigger>",
+      "        ))}",
+      "      </TabsList>",
+      "      {tabs.map((t) => (",
+      '        <TabsContent key={t.label} value={t.label} className="text-sm text-muted-foreground">',
+      "          {t.content}",
+      "        </TabsContent>",
+      "      ))}",
+      "    </Tabs>",
+      "  );",
+      "}",
+    ],
+  },
+  FAQAccordion: {
+    imports: [
+      ["@/components/ui/accordion", "Accordion"],
+      ["@/components/ui/accordion", "AccordionContent"],
+      ["@/components/ui/accordion", "AccordionItem"],
+      ["@/components/ui/accordion", "AccordionTrigger"],
+    ],
+    propsType: "{ title: string; items: Array<{ question: string; answer: string }> }",
+    ident: "FAQAccordion",
+    definition: [
+      "function FAQAccordion({ title, items }: FAQAccordionProps) {",
+      "  return (",
+      '    <div className="rounded-xl border bg-card p-4">',
+      '      <div className="text-sm font-medium">{title}</div>',
+      '      <Accordion type="single" collapsible>',
+      "        {items.map((item, i) => (",
+      "          <AccordionItem key={i} value={`item-${i}`}>",
+      "            <AccordionTrigger>{item.question}</AccordionTrigger>",
+      '            <AccordionContent className="text-muted-foreground">{item.answer}</AccordionContent>',
+      "          </AccordionItem>",
+      "        ))}",
+      "      </Accordion>",
+      "    </div>",
+      "  );",
+      "}",
+    ],
+  },
+  Footer: {
+    imports: [],
+    propsType: "{ text: string; links: string[] }",
+    ident: "PageFooter",
+    definition: [
+      "function PageFooter({ text, links }: FooterProps) {",
+      "  return (",
+      '    <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-muted-foreground">',
+      "      <span>{text}</span>",
+      '      <nav className="flex gap-4">',
+      "        {links.map((l) => (",
+      '          <a key={l} href="#" className="hover:text-foreground">',
+      "            {l}",
+      "          </a>",
+      "        ))}",
+      "      </nav>",
+      "    </div>",
+      "  );",
+      "}",
+    ],
+  },
+};
+
+function indent(lines: string[], depth: number) {
+  const pad = " ".repeat(depth);
+  return lines.map((l) => (l ? pad + l : l));
+}
+
+function snippetOf(type: ComponentName): Snippet {
+  return SNIPPETS[type] ?? customComponent(type)!.code;
+}
+
+function usageOf(instance: ComponentInstance): string[] {
+  const snippet = snippetOf(instance.type);
+  if (snippet.usage) return snippet.usage(instance);
+  return snippet.ident ? [spread(snippet.ident, instance)] : [];
+}
+
+// Imports grouped per module, modules and names sorted so output is stable.
+function importLines(used: ComponentName[]): string[] {
+  const byModule = new Map<string, Set<string>>();
+  if (used.includes("Sidebar")) byModule.set("react", new Set(["type CSSProperties"]));
+  for (const c of used) {
+    for (const [mod, name] of snippetOf(c).imports) {
+      const names = byModule.get(mod) ?? new Set<string>();
+      names.add(name);
+      byModule.set(mod, names);
+    }
+  }
+
+  const sortKey = (name: string) => name.replace(/^type /, "");
+  return Array.from(byModule.keys())
+    .sort((a, b) => (a === "react" ? -1 : b === "react" ? 1 : a.localeCompare(b)))
+    .map((mod) => {
+      const names = Array.from(byModule.get(mod)!).sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+      return `import { ${names.join(", ")} } from "${mod}";`;
+    });
+}
+
+// Plan types narrowed to the component types this page uses.
+function planTypes(used: ComponentName[]): string[] {
+  const charts = used.some((c) => CHART_COMPONENTS.includes(c));
+  return [
+    ...(charts ? ["type ChartSeries = { field: string; label?: string };", ""] : []),
+    ...used.map((c) => `type ${c}Props = ${snippetOf(c).propsType};`),
+    "",
+    "type ComponentProps = {",
+    ...used.map((c) => `  ${c}: ${c}Props;`),
+    "};",
+    "",
+    "type PlanComponent = {",
+    "  [K in keyof ComponentProps]: { id: string; type: K; props: ComponentProps[K] };",
+    "}[keyof ComponentProps];",
+    "",
+    "type LayoutNode =",
+    '  | { kind: "component"; ref: string; span?: number }',
+    '  | { kind: "row" | "column"; children: LayoutNode[]; span?: number };',
+    "",
+    "type PagePlan = {",
+    '  layout: "dashboard" | "landing" | "settings";',
+    '  tone: "minimal" | "bold" | "playful" | "enterprise";',
+    "  components: PlanComponent[];",
+    '  regions: Record<"header" | "sidebar" | "main" | "footer", LayoutNode[]>;',
+    "  content: { title: string; subtitle?: string };",
+    "};",
+  ];
+}
+
+const PROPS_OF = [
+  "function propsOf<K extends keyof ComponentProps>(id: string, type: K): ComponentProps[K] {",
+  "  const found = plan.components.find((c) => c.id === id && c.type === type);",
+  "  if (!found) throw new Error(`Missing ${type} ${id}`);",
+  "  return found.props as ComponentProps[K];",
+  "}",
+];
+
+function generateNodes(plan: UIPlan, nodes: LayoutNode[], inRow = false): string[] {
+  const byId = new Map(plan.components.map((c) => [c.id, c]));
+  return nodes.flatMap((node) => {
+    if (node.kind !== "component") {
+      const cls = node.kind === "row" ? ROW_CLASS : COLUMN_CLASS;
+      const inner = generateNodes(plan, node.children, node.kind === "row");
+      const spanned = inRow ? `${spanClass(node, nodes.length)} ${cls}` : cls;
+      return [`<div className="${spanned}">`, ...indent(inner, 2), "</div>"];
+    }
+    const instance = byId.get(node.ref);
+    if (!instance) return [];
+    if (!inRow) return usageOf(instance);
+    return [`<div className="min-w-0 ${spanClass(node, nodes.length)}">`, ...indent(usageOf(instance), 2), "</div>"];
+  });
+}
+
+function generateModule(plan: UIPlan, datasets?: DatasetLookup): string {
+  const used = Array.from(new Set(plan.components.map((c) => c.type)));
+  const { header, sidebar, main, footer } = plan.regions;
+
+  const mainClass = sidebar.length ? "col-span-12 md:col-span-9 p-4 space-y-4" : "col-span-12 p-4 space-y-4";
+  const page: string[] = [
+    "export default function GeneratedPage() {",
+    "  return (",
+    '    <div className="min-h-screen bg-background text-foreground">',
+    ...indent(generateNodes(plan, header), 6),
+    '      <div className="grid grid-cols-12">',
+    ...(sidebar.length
+      ? [
+          '        <aside className="col-span-12 md:col-span-3 border-r">',
+          ...indent(generateNodes(plan, sidebar), 10),
+          "        </aside>",
+        ]
+      : []),
+    `        <main className="${mainClass}">`,
+    ...indent(generateNodes(plan, main), 10),
+    "        </main>",
+    "      </div>",
+    ...(footer.length
+      ? [
+          '      <footer className="p-4 border-t space-y-4">',
+          ...indent(generateNodes(plan, footer), 8),
+          "      </footer>",
+        ]
+      : []),
+    "    </div>",
+    "  );",
+    "}",
+  ];
+
+  const charts = plan.components.filter((c) => CHART_COMPONENTS.includes(c.type));
+  const chartSupport = charts.length
+    ? [
+        "",
+        "type ChartPoint = { x: string } & Record<string, string | number>;",
+        "",
+        "function chartConfig(series: ChartSeries[]): ChartConfig {",
+        "  return Object.fromEntries(",
+        "    series.map((s, i) => {",
+        "      const label = s.label ?? s.field.charAt(0).toUpperCase() + s.field.slice(1);",
+        "      return [`s${i}`, { label, color: `hsl(var(--chart-${(i % 5) + 1}))` }];",
+        "    }),",
+        "  );",
+        "}",
+        "",
+        "// Points per chart card, aggregated from its uploaded dataset, or from sample",
+        "// rows shaped like its config when it has none. A dataset can move series",
+        "// onto the columns it has, so the series plotted come along.",
+        `const CHART_DATA: Record<string, { series: ChartSeries[]; data: ChartPoint[] }> = ${json(
+          Object.fromEntries(
+            charts.map((c) => {
+              const props = c.props as ChartProps;
+              const dataset = props.dataset ? datasets?.get(props.dataset) : undefined;
+              const { series, points } = chartData(props, c.type === "LineChartCard" ? "line" : "bar", dataset);
+              return [c.id, { series, data: points }];
+            }),
+          ),
+        )};`,
+      ]
+    : [];
+
+  const definitions = used.flatMap((c) => {
+    const def = snippetOf(c).definition;
+    return def ? ["", ...def] : [];
+  });
+
+  return [
+    `// Generated deterministically from the plan (layout: ${plan.layout}, tone: ${plan.tone}).`,
+    ...importLines(used),
+    "",
+    ...planTypes(used),
+    "",
+    `const plan: PagePlan = ${json(plan)};`,
+    "",
+    `const TONE_CLASS = ${JSON.stringify(toneClass(plan.tone))};`,
+    "",
+    ...PROPS_OF,
+    ...chartSupport,
+    ...definitions,
+    "",
+    ...page,
+    "",
+  ].join("\n");
+}
+
+function templateNodes(plan: UIPlan, nodes: LayoutNode[]): string[] {
+  const typeOf = new Map(plan.components.map((c) => [c.id, c.type]));
+  return nodes.flatMap((node) => {
+    const span = node.span ? ` span={${node.span}}` : "";
+    if (node.kind === "component") {
+      return [`<${typeOf.get(node.ref)} {...props(${JSON.stringify(node.ref)})}${span} />`];
+    }
+    const tag = node.kind === "row" ? "Row" : "Column";
+    return [`<${tag}${span}>`, ...indent(templateNodes(plan, node.children), 2), `</${tag}>`];
+  });
+}
+
+function generateTemplate(plan: UIPlan): string {
+  const lines: string[] = [];
+  lines.push(`// Generated deterministically from the plan`);
+  lines.push(`const plan = ${json(plan)};`);
+  lines.push("");
+  lines.push("<AppShell>");
+  for (const region of REGION_NAMES) {
+    const nodes = plan.regions[region];
+    if (nodes.length === 0) continue;
+    lines.push(`  <Region name="${region}">`);
+    lines.push(...indent(templateNodes(plan, nodes), 4));
+    lines.push("  </Region>");
+  }
+  lines.push("</AppShell>");
+
+  return lines.join("\n");
+}
+
+// Charts bound to a dataset in `datasets` plot its rows; others, and charts
+// whose dataset is not given, plot sample rows.
+export function generator(
+  plan: UIPlan,
+  target: GeneratorTarget = "module",
+  datasets?: DatasetLookup,
+): { code: string } {
+  return { code: target === "module" ? generateModule(plan, datasets) : generateTemplate(plan) };
+}
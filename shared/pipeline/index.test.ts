@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { runPipeline, streamPipeline, type PipelineEvent } from "./index";
+import { DEFAULT_POLICY, type GuardrailPolicy } from "./policy";
+import { rulePlanner } from "./providers";
+
+const PROMPT = "Create a dashboard with KPIs, a chart and a table";
+
+function policy(limit: number): GuardrailPolicy {
+  return { ...DEFAULT_POLICY, maxComponents: { enabled: true, severity: "error", limit } };
+}
+
+describe("runPipeline repair rounds", () => {
+  it("blocks a plan that fails validation when no repair rounds are allowed", () => {
+    const result = runPipeline(PROMPT, "generate", undefined, policy(3));
+    assert.ok(!result.ok);
+    assert.match(result.error, /the policy allows 3/);
+    assert.deepEqual(result.corrections, []);
+  });
+
+  it("repairs the plan until it validates", () => {
+    const result = runPipeline(PROMPT, "generate", undefined, policy(3), 3);
+    assert.ok(result.ok);
+    assert.equal(result.model.plan.components.length, 3);
+    assert.ok(result.corrections.some((c) => c.endsWith("to stay within 3 components")));
+  });
+
+  it("adds what the policy requires on the layout", () => {
+    const required: GuardrailPolicy = {
+      ...DEFAULT_POLICY,
+      requiredComponents: { enabled: true, severity: "error", byLayout: { dashboard: ["EmptyState"] } },
+    };
+    const result = runPipeline(PROMPT, "generate", undefined, required, 1);
+    assert.ok(result.ok);
+    assert.ok(result.model.plan.components.some((c) => c.type === "EmptyState"));
+    assert.deepEqual(result.corrections, ["Added EmptyState (required on dashboard pages)"]);
+  });
+
+  it("stops when a round changes nothing and reports the plan it has", () => {
+    const conflicting: GuardrailPolicy = {
+      ...policy(1),
+      requiredComponents: { enabled: true, severity: "error", byLayout: { dashboard: ["DataTable", "EmptyState"] } },
+    };
+    const result = runPipeline(PROMPT, "generate", undefined, conflicting, 3);
+    assert.ok(!result.ok);
+    assert.match(result.error, /Plan has 3 components; the policy allows 1/);
+    assert.deepEqual(result.corrections, [
+      "Added EmptyState (required on dashboard pages)",
+      "Removed topnav-1, sidebar-1, kpigrid-1, linechartcard-1 to stay within 1 components",
+    ]);
+    assert.deepEqual(result.plan.components.map((c) => c.type), ["AppShell", "DataTable", "EmptyState"]);
+  });
+});
+
+describe("streamPipeline", () => {
+  it("stops between stages once the request is aborted", async () => {
+    const controller = new AbortController();
+    const seen: PipelineEvent["type"][] = [];
+    const run = async () => {
+      const request = { prompt: PROMPT, mode: "generate" as const, signal: controller.signal };
+      for await (const event of streamPipeline(rulePlanner, request)) {
+        seen.push(event.type);
+        if (event.type === "validation") controller.abort();
+      }
+    };
+    await assert.rejects(run(), { name: "AbortError" });
+    assert.deepEqual(seen, ["planning", "plan", "validation"]);
+  });
+});
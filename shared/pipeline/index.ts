@@ -0,0 +1,181 @@
+import { explainer } from "./explainer";
+import { generator } from "./generator";
+import { planner, repairPlan } from "./planner";
+import type { DatasetLookup } from "./datasets";
+import type { GuardrailPolicy } from "./policy";
+import { planWith, type PlannerProvider, type PlannerReport, type PlannerRequest } from "./providers";
+import type { PipelineMode, PlannerName, UIModel, UIPlan } from "./types";
+import { validatePlan, type ValidationIssue } from "./validate";
+
+export * from "./types";
+export { applyIntents, bindDataset, planner, repairPlan } from "./planner";
+export * from "./intents";
+export * from "./kpis";
+export * from "./tables";
+export * from "./datasets";
+export * from "./charts";
+export { generator, type GeneratorTarget } from "./generator";
+export { explainer } from "./explainer";
+export {
+  ISSUE_SEVERITIES,
+  validatePlan,
+  type IssueSeverity,
+  type ValidationIssue,
+  type ValidationResult,
+} from "./validate";
+export * from "./schema";
+export * from "./diff";
+export * from "./presentation";
+export * from "./components";
+export * from "./layout";
+export { upgradePlan } from "./upgrade";
+export * from "./registry";
+export * from "./policy";
+export * from "./providers";
+
+// Repair rounds a run may spend on a plan that fails validation.
+export const MAX_REPAIR_ATTEMPTS = 3;
+
+// `corrections` lists what the repair stage changed, in order.
+export type PipelineResult =
+  | { ok: true; model: UIModel; corrections: string[] }
+  | { ok: false; error: string; issues: ValidationIssue[]; plan: UIPlan; corrections: string[] };
+
+// Planner → validation → Generator → Explainer. Deterministic for a given
+// prompt and previous plan, so the studio and the server agree on output.
+// With `maxRepairs`, a plan that fails validation is handed back to the
+// planner with its issues for up to that many repair rounds.
+export function runPipeline(
+  userText: string,
+  mode: PipelineMode,
+  prev?: UIPlan,
+  policy?: GuardrailPolicy,
+  maxRepairs = 0,
+): PipelineResult {
+  const base = mode === "modify" ? prev : undefined;
+  return finishPipeline(planner(userText, base), base, policy, maxRepairs);
+}
+
+// Stages of a run as they happen, for clients that render progress. A run
+// ends with "done" or "blocked"; "plan" carries the planner's plan before
+// any repair.
+export type PipelineEvent =
+  | { type: "planning"; planner: PlannerName }
+  | { type: "plan"; plan: UIPlan; planner: PlannerReport }
+  | { type: "validation"; ok: boolean; issues: ValidationIssue[]; corrections: string[] }
+  | { type: "code"; chunk: string }
+  | { type: "explanation"; text: string }
+  | { type: "done"; model: UIModel; corrections: string[]; planner: PlannerReport }
+  | {
+      type: "blocked";
+      error: string;
+      issues: ValidationIssue[];
+      plan: UIPlan;
+      corrections: string[];
+      planner: PlannerReport;
+    };
+
+// What the server sends over the pipeline socket: the events of run `id`,
+// then "cancelled" if it was stopped. "error" has a null id when the request
+// itself could not be read.
+export type PipelineSocketMessage =
+  | (PipelineEvent & { id: string })
+  | { type: "cancelled"; id: string }
+  | { type: "error"; id: string | null; message: string };
+
+// Lines of generated code per "code" event.
+const CODE_CHUNK_LINES = 40;
+
+// The pipeline as a stream of events, with the plan coming from `provider`
+// and the rule planner standing in when its output is rejected. Aborting
+// `request.signal` stops the run between stages. Charts bound to one of
+// `datasets` plot it in the generated code.
+export async function* streamPipeline(
+  provider: PlannerProvider,
+  request: PlannerRequest,
+  maxRepairs = 0,
+  datasets?: DatasetLookup,
+): AsyncGenerator<PipelineEvent> {
+  const { prev, policy, signal } = request;
+  yield { type: "planning", planner: provider.name };
+  const { plan, report } = await planWith(provider, request, maxRepairs);
+  signal?.throwIfAborted();
+  yield { type: "plan", plan, planner: report };
+
+  const repaired = repairUntilValid(plan, policy, maxRepairs);
+  const { validation } = repaired;
+  const corrections = [...(report.corrections ?? []), ...repaired.corrections];
+  yield { type: "validation", ok: validation.ok, issues: validation.issues, corrections };
+  if (!validation.ok) {
+    const { error, issues } = validation;
+    yield { type: "blocked", error, issues, plan: repaired.plan, corrections, planner: report };
+    return;
+  }
+
+  const model = buildModel(repaired.plan, prev, datasets);
+  const lines = model.code.split("\n");
+  for (let i = 0; i < lines.length; i += CODE_CHUNK_LINES) {
+    signal?.throwIfAborted();
+    const last = i + CODE_CHUNK_LINES >= lines.length;
+    yield { type: "code", chunk: lines.slice(i, i + CODE_CHUNK_LINES).join("\n") + (last ? "" : "\n") };
+  }
+  yield { type: "explanation", text: model.explanation };
+  yield { type: "done", model, corrections, planner: report };
+}
+
+// streamPipeline without the progress events.
+export async function runPipelineWith(
+  provider: PlannerProvider,
+  userText: string,
+  mode: PipelineMode,
+  prev?: UIPlan,
+  policy?: GuardrailPolicy,
+  maxRepairs = 0,
+  datasets?: DatasetLookup,
+): Promise<PipelineResult & { planner: PlannerReport }> {
+  const base = mode === "modify" ? prev : undefined;
+  const request = { prompt: userText, mode, prev: base, policy };
+  for await (const event of streamPipeline(provider, request, maxRepairs, datasets)) {
+    if (event.type === "done") {
+      const { type: _type, ...result } = event;
+      return { ok: true, ...result };
+    }
+    if (event.type === "blocked") {
+      const { type: _type, ...result } = event;
+      return { ok: false, ...result };
+    }
+  }
+  throw new Error("Pipeline ended without a result");
+}
+
+function repairUntilValid(plan: UIPlan, policy: GuardrailPolicy | undefined, maxRepairs: number) {
+  let validation = validatePlan(plan, policy);
+  const corrections: string[] = [];
+  for (let attempt = 0; !validation.ok && attempt < maxRepairs; attempt++) {
+    const repaired = repairPlan(plan, validation.issues, policy);
+    if (repaired.corrections.length === 0) break;
+    plan = repaired.plan;
+    corrections.push(...repaired.corrections);
+    validation = validatePlan(plan, policy);
+  }
+  return { plan, validation, corrections };
+}
+
+function finishPipeline(
+  plan: UIPlan,
+  prev: UIPlan | undefined,
+  policy: GuardrailPolicy | undefined,
+  maxRepairs: number,
+): PipelineResult {
+  const repaired = repairUntilValid(plan, policy, maxRepairs);
+  const { validation, corrections } = repaired;
+  if (!validation.ok) {
+    return { ok: false, error: validation.error, issues: validation.issues, plan: repaired.plan, corrections };
+  }
+
+  return { ok: true, model: buildModel(repaired.plan, prev), corrections };
+}
+
+export function buildModel(plan: UIPlan, prev?: UIPlan, datasets?: DatasetLookup): UIModel {
+  return { plan, code: generator(plan, "module", datasets).code, explanation: explainer(plan, prev) };
+}
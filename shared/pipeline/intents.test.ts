@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffModels } from "./diff";
+import { runPipeline, type UIModel } from "./index";
+import { parsePrompt } from "./intents";
+
+function generate(prompt: string): UIModel {
+  const result = runPipeline(prompt, "generate");
+  assert.ok(result.ok);
+  return result.model;
+}
+
+function modify(prompt: string, prev: UIModel): UIModel {
+  const result = runPipeline(prompt, "modify", prev.plan);
+  assert.ok(result.ok);
+  return result.model;
+}
+
+describe("parsePrompt removals", () => {
+  it("spans the whole negation, verb included", () => {
+    const input = "I don't want a sidebar";
+    const [intent] = parsePrompt(input);
+    assert.equal(intent.kind, "remove");
+    assert.deepEqual(intent.kind === "remove" && intent.components, ["Sidebar"]);
+    assert.equal(input.slice(intent.span.start, intent.span.end), "don't want a sidebar");
+  });
+
+  it("reads \"do not show\" and \"no more\" as removals", () => {
+    assert.deepEqual(parsePrompt("do not show the table").map((i) => i.kind), ["remove"]);
+    assert.deepEqual(parsePrompt("no more bar chart").map((i) => i.kind), ["remove"]);
+  });
+});
+
+describe("modify mode removals", () => {
+  const cases: Array<[prompt: string, type: string, noun: string]> = [
+    ["I don't want a sidebar", "Sidebar", "sidebar"],
+    ["don't show the table", "DataTable", "table"],
+    ["do not include the line chart", "LineChartCard", "line chart"],
+    ["no more bar chart", "BarChartCard", "bar chart"],
+  ];
+
+  for (const [prompt, type, noun] of cases) {
+    it(`removes the ${noun} for "${prompt}"`, () => {
+      const prev = generate("Create a dashboard with a sidebar, a bar chart and a table");
+      const next = modify(prompt, prev);
+
+      const diff = diffModels(prev, next);
+      assert.deepEqual(diff.componentsRemoved.map((c) => c.type), [type]);
+      assert.deepEqual(diff.componentsAdded, []);
+      assert.match(next.explanation, new RegExp(`Removed: ${noun}\\.`));
+    });
+  }
+});
@@ -0,0 +1,684 @@
+import { MAX_CHART_SERIES, type ChartAggregate, type ChartEdit } from "./charts";
+import { kpiLabel, parseKpi, parseKpiList, type KpiEdit } from "./kpis";
+import type { Placement } from "./layout";
+import { CHART_COMPONENTS } from "./presentation";
+import { customComponents } from "./registry";
+import { clampTable, findPastedTables, parseColumnList, type TableData, type TableSource } from "./tables";
+import type { ComponentName, RegionName, UIPlan } from "./types";
+
+// Character offsets into the original prompt, end exclusive.
+export type Span = { start: number; end: number };
+
+// Which chart a chart intent configures: a named type, any chart ("chart of
+// revenue by region"), every chart ("make the charts stacked"), or the charts
+// already in play ("with a legend").
+export type ChartTarget = ComponentName | "any" | "all" | "current";
+
+export type MoveTarget = { anchor: ComponentName[]; where: Placement } | { region: RegionName; at: "start" | "end" };
+
+export type Intent = (
+  | { kind: "add"; component: ComponentName; another: boolean }
+  | { kind: "remove"; components: ComponentName[] }
+  | { kind: "set-tone"; tone: UIPlan["tone"] }
+  | { kind: "set-layout"; layout: UIPlan["layout"] }
+  | { kind: "set-title"; title: string }
+  | { kind: "set-content"; field: "subtitle"; value: string }
+  | { kind: "kpi"; edit: KpiEdit }
+  | { kind: "table"; table: TableData; source: TableSource }
+  | { kind: "chart"; target: ChartTarget; another: boolean; spec: ChartEdit }
+  | { kind: "move"; components: ComponentName[]; to: MoveTarget }
+  | { kind: "set-columns"; count: number }
+) & { span: Span };
+
+export type IntentKind = Intent["kind"];
+
+type Token = { text: string; start: number; end: number };
+
+// Phrases are space-separated token sequences; the longest match wins.
+type Lexicon<T> = Array<[phrase: string, value: T]>;
+
+const COMPONENT_WORDS: Lexicon<ComponentName[]> = [
+  ["kpi", ["KPIGrid"]],
+  ["kpis", ["KPIGrid"]],
+  ["kpi grid", ["KPIGrid"]],
+  ["metrics", ["KPIGrid"]],
+  ["stats", ["KPIGrid"]],
+  ["line chart", ["LineChartCard"]],
+  ["line charts", ["LineChartCard"]],
+  ["trend", ["LineChartCard"]],
+  ["trends", ["LineChartCard"]],
+  ["bar chart", ["BarChartCard"]],
+  ["bar charts", ["BarChartCard"]],
+  ["bars", ["BarChartCard"]],
+  ["revenue", ["BarChartCard"]],
+  ["sales", ["BarChartCard"]],
+  ["chart", CHART_COMPONENTS],
+  ["charts", CHART_COMPONENTS],
+  ["graph", CHART_COMPONENTS],
+  ["graphs", CHART_COMPONENTS],
+  ["table", ["DataTable"]],
+  ["tables", ["DataTable"]],
+  ["data table", ["DataTable"]],
+  ["sidebar", ["Sidebar"]],
+  ["side bar", ["Sidebar"]],
+  ["side nav", ["Sidebar"]],
+  ["navigation", ["Sidebar"]],
+  ["top nav", ["TopNav"]],
+  ["topnav", ["TopNav"]],
+  ["navbar", ["TopNav"]],
+  ["settings", ["SettingsModal"]],
+  ["settings modal", ["SettingsModal"]],
+  ["settings dialog", ["SettingsModal"]],
+  ["preferences", ["SettingsModal"]],
+  ["modal", ["SettingsModal"]],
+  ["empty", ["EmptyState"]],
+  ["empty state", ["EmptyState"]],
+  ["no data", ["EmptyState"]],
+  ["blank", ["EmptyState"]],
+  ["hero", ["Hero"]],
+  ["hero section", ["Hero"]],
+  ["banner", ["Hero"]],
+  ["pricing", ["PricingTable"]],
+  ["pricing table", ["PricingTable"]],
+  ["pricing cards", ["PricingTable"]],
+  ["pricing plans", ["PricingTable"]],
+  ["features", ["FeatureGrid"]],
+  ["feature grid", ["FeatureGrid"]],
+  ["feature cards", ["FeatureGrid"]],
+  ["features table", ["DataTable"]],
+  ["testimonial", ["Testimonial"]],
+  ["testimonials", ["Testimonial"]],
+  ["quote", ["Testimonial"]],
+  ["form", ["FormCard"]],
+  ["form card", ["FormCard"]],
+  ["contact form", ["FormCard"]],
+  ["signup form", ["FormCard"]],
+  ["sign up form", ["FormCard"]],
+  ["tabs", ["TabsPanel"]],
+  ["tabbed", ["TabsPanel"]],
+  ["tabs panel", ["TabsPanel"]],
+  ["faq", ["FAQAccordion"]],
+  ["faqs", ["FAQAccordion"]],
+  ["accordion", ["FAQAccordion"]],
+  ["footer", ["Footer"]],
+];
+
+// Built-in phrases first, so on a tie they win over registered triggers.
+function componentWords(): Lexicon<ComponentName[]> {
+  const custom = customComponents().flatMap((c) =>
+    c.triggers.map((t): [string, ComponentName[]] => [
+      tokenize(t)
+        .map((w) => w.text)
+        .join(" "),
+      [c.name as ComponentName],
+    ]),
+  );
+  return [...COMPONENT_WORDS, ...custom];
+}
+
+const LAYOUT_WORDS: Lexicon<UIPlan["layout"]> = [
+  ["dashboard", "dashboard"],
+  ["analytics", "dashboard"],
+  ["landing", "landing"],
+  ["landing page", "landing"],
+  ["marketing", "landing"],
+  ["settings page", "settings"],
+  ["settings screen", "settings"],
+  ["settings view", "settings"],
+  ["preferences page", "settings"],
+];
+
+const TONE_WORDS: Lexicon<UIPlan["tone"]> = [
+  ["minimal", "minimal"],
+  ["clean", "minimal"],
+  ["simple", "minimal"],
+  ["playful", "playful"],
+  ["fun", "playful"],
+  ["bright", "playful"],
+  ["enterprise", "enterprise"],
+  ["professional", "enterprise"],
+  ["corporate", "enterprise"],
+  ["bold", "bold"],
+];
+
+// "don't" tokenizes as "don t". A verb after "don't"/"do not" belongs to the
+// negation, so "I don't want a sidebar" removes the sidebar.
+const NEGATED_VERBS = ["want", "need", "show", "include", "add", "use", "have"];
+
+const NEGATORS: Lexicon<true> = [
+  ["no", true],
+  ["no more", true],
+  ["not", true],
+  ["without", true],
+  ["remove", true],
+  ["drop", true],
+  ["delete", true],
+  ["hide", true],
+  ["exclude", true],
+  ["get rid of", true],
+  ["take out", true],
+  ...["don t", "dont", "do not"].flatMap((n): Lexicon<true> => [
+    [n, true],
+    ...NEGATED_VERBS.map((verb): [string, true] => [`${n} ${verb}`, true]),
+  ]),
+];
+
+const ANOTHER: Lexicon<true> = [
+  ["another", true],
+  ["second", true],
+  ["extra", true],
+  ["additional", true],
+];
+
+const PLACEMENTS: Lexicon<Placement> = [
+  ["above", "before"],
+  ["before", "before"],
+  ["over", "before"],
+  ["on top of", "before"],
+  ["below", "after"],
+  ["after", "after"],
+  ["under", "after"],
+  ["beneath", "after"],
+  ["beside", "beside"],
+  ["next to", "beside"],
+  ["alongside", "beside"],
+];
+
+const DESTINATIONS: Lexicon<{ region: RegionName; at: "start" | "end" }> = [
+  ["top", { region: "main", at: "start" }],
+  ["bottom", { region: "main", at: "end" }],
+  ["header", { region: "header", at: "end" }],
+  ["sidebar", { region: "sidebar", at: "end" }],
+  ["main", { region: "main", at: "end" }],
+  ["main area", { region: "main", at: "end" }],
+  ["footer", { region: "footer", at: "end" }],
+];
+
+const NUMBERS: Lexicon<number> = [
+  ["one", 1],
+  ["single", 1],
+  ["1", 1],
+  ["two", 2],
+  ["2", 2],
+  ["three", 3],
+  ["3", 3],
+];
+
+const CHART_NOUNS: Lexicon<ChartTarget> = [
+  ["line chart", "LineChartCard"],
+  ["line charts", "LineChartCard"],
+  ["line graph", "LineChartCard"],
+  ["bar chart", "BarChartCard"],
+  ["bar charts", "BarChartCard"],
+  ["bar graph", "BarChartCard"],
+  ["chart", "any"],
+  ["charts", "all"],
+  ["graph", "any"],
+  ["graphs", "all"],
+];
+
+const AGGREGATE_WORDS: Lexicon<ChartAggregate> = [
+  ["average", "avg"],
+  ["avg", "avg"],
+  ["mean", "avg"],
+  ["total", "sum"],
+  ["sum of", "sum"],
+  ["count of", "count"],
+  ["number of", "count"],
+];
+
+// Flags that may trail a chart phrase or stand alone.
+const CHART_FLAGS: Lexicon<ChartEdit> = [
+  ["stacked", { stacked: true }],
+  ["unstacked", { stacked: false }],
+  ["not stacked", { stacked: false }],
+  ["with legend", { legend: true }],
+  ["with a legend", { legend: true }],
+  ["show legend", { legend: true }],
+  ["show the legend", { legend: true }],
+  ["add a legend", { legend: true }],
+  ["add legend", { legend: true }],
+  ["and a legend", { legend: true }],
+  ["legend", { legend: true }],
+  ["no legend", { legend: false }],
+  ["without legend", { legend: false }],
+  ["without a legend", { legend: false }],
+  ["hide legend", { legend: false }],
+  ["hide the legend", { legend: false }],
+  ["remove the legend", { legend: false }],
+];
+
+const SERIES_LEADS = new Set(["of", "showing", "for", "plotting"]);
+const AXIS_MARKERS = new Set(["by", "over", "per", "across"]);
+// "over time" plots against the date column.
+const AXIS_ALIASES = new Map([["time", "date"]]);
+const MAX_AXIS_WORDS = 3;
+
+const MOVE_VERBS = new Set(["put", "move", "place"]);
+const ARTICLES = new Set(["the", "a", "an", "any", "all", "some", "my", "our"]);
+const LIST_WORDS = new Set(["and", "or", ","]);
+const COLUMN_WORDS = new Set(["column", "columns"]);
+const AREA_WORDS = new Set(["main", "layout", "page"]);
+const LABELS = new Map<string, "title" | "subtitle">([
+  ["title", "title"],
+  ["name", "title"],
+  ["subtitle", "subtitle"],
+  ["tagline", "subtitle"],
+]);
+const KPI_LIST_LABELS = new Set(["kpis", "kpi", "metrics"]);
+const KPI_WORDS = new Set(["kpi", "metric"]);
+
+// Where free text for one KPI ends: a list comma (not a thousands separator),
+// a sentence end, or "and"/"then" starting the next instruction.
+const CLAUSE_END_RE = /(?<!\d),|,(?!\d)|[;!?\n]|\.(?=\s|$)|\s(?:and|then)\s/g;
+// A KPI list runs on through commas and "and" to the end of the sentence.
+const LIST_END_RE = /[;!?\n]|\.(?=\s|$)/g;
+// Column lists also stop where the next instruction starts.
+const COLUMNS_END_RE = /[;!?\n]|\.(?=\s|$)|\s(?:then|and\s+(?:make|add|remove|put|move|set|show|use))\s/g;
+
+const TOKEN_RE = /[a-z0-9]+|[.,;:!?]/gi;
+
+export function tokenize(input: string): Token[] {
+  return Array.from(input.matchAll(TOKEN_RE), (m) => ({
+    text: m[0].toLowerCase(),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+function lookup<T>(lexicon: Lexicon<T>, tokens: Token[], i: number): { value: T; length: number } | undefined {
+  let best: { value: T; length: number } | undefined;
+  for (const [phrase, value] of lexicon) {
+    const words = phrase.split(" ");
+    if (words.length <= (best?.length ?? 0)) continue;
+    if (words.every((w, k) => tokens[i + k]?.text === w)) best = { value, length: words.length };
+  }
+  return best;
+}
+
+function skipArticles(tokens: Token[], i: number) {
+  while (tokens[i] && ARTICLES.has(tokens[i].text)) i++;
+  return i;
+}
+
+function span(tokens: Token[], from: number, to: number): Span {
+  return { start: tokens[from].start, end: tokens[to - 1].end };
+}
+
+function isLabelAt(tokens: Token[], k: number) {
+  const word = tokens[k]?.text ?? "";
+  return tokens[k + 1]?.text === ":" && (LABELS.has(word) || KPI_LIST_LABELS.has(word));
+}
+
+function searchFrom(re: RegExp, input: string, from: number) {
+  re.lastIndex = from;
+  return re.exec(input)?.index ?? input.length;
+}
+
+// Index of the first token at or after a character offset.
+function tokenAt(tokens: Token[], offset: number) {
+  const k = tokens.findIndex((t) => t.start >= offset);
+  return k === -1 ? tokens.length : k;
+}
+
+// Span over raw text with surrounding whitespace trimmed off.
+function textSpan(input: string, start: number, end: number): Span {
+  return { start, end: start + input.slice(start, end).trimEnd().length };
+}
+
+type Parsed = { intents: Intent[]; next: number };
+
+// "title: Revenue board" / "subtitle: ..." run to the next label or the end.
+function parseLabel(input: string, tokens: Token[], i: number): Parsed | undefined {
+  const field = LABELS.get(tokens[i].text);
+  if (!field || tokens[i + 1]?.text !== ":") return undefined;
+
+  let next = i + 2;
+  while (next < tokens.length && !isLabelAt(tokens, next)) next++;
+  const valueStart = tokens[i + 1].end;
+  const valueEnd = next < tokens.length ? tokens[next].start : input.length;
+  const value = input.slice(valueStart, valueEnd).trim();
+  if (!value) return { intents: [], next };
+
+  const at = textSpan(input, tokens[i].start, valueEnd);
+  const intent: Intent =
+    field === "title" ? { kind: "set-title", title: value, span: at } : { kind: "set-content", field, value, span: at };
+  return { intents: [intent], next };
+}
+
+// "KPIs: MRR $42k (+8%), churn 2.1%, active users 1,204" replaces the grid's KPIs.
+function parseKpiSection(input: string, tokens: Token[], i: number): Parsed | undefined {
+  if (!KPI_LIST_LABELS.has(tokens[i].text) || tokens[i + 1]?.text !== ":") return undefined;
+
+  const from = tokens[i + 1].end;
+  let end = searchFrom(LIST_END_RE, input, from);
+  const label = tokens.findIndex((t, k) => k > i + 1 && t.start < end && isLabelAt(tokens, k));
+  if (label !== -1) end = tokens[label].start;
+
+  const kpis = parseKpiList(input.slice(from, end));
+  const next = tokenAt(tokens, end);
+  if (kpis.length === 0) return { intents: [], next };
+  return { intents: [{ kind: "kpi", edit: { op: "replace", kpis }, span: textSpan(input, tokens[i].start, end) }], next };
+}
+
+// "table with columns name, email, plan, MRR", "columns: region, revenue"
+function parseColumnSpec(input: string, tokens: Token[], i: number): Parsed | undefined {
+  if (tokens[i].text !== "columns") return undefined;
+  const labelled = tokens[i + 1]?.text === ":";
+  if (!labelled && !["with", "table", "of"].includes(tokens[i - 1]?.text ?? "")) return undefined;
+
+  const from = labelled ? tokens[i + 1].end : tokens[i].end;
+  const end = searchFrom(COLUMNS_END_RE, input, from);
+  const columns = parseColumnList(input.slice(from, end));
+  if (columns.length === 0) return undefined;
+  return {
+    intents: [
+      {
+        kind: "table",
+        table: clampTable({ columns, rows: [] }),
+        source: "columns",
+        span: textSpan(input, tokens[i].start, end),
+      },
+    ],
+    next: tokenAt(tokens, end),
+  };
+}
+
+// "add KPI NPS 62 (+3)", "rename KPI churn to logo churn",
+// "remove the churn kpi", "drop metric active users"
+function parseKpiEdit(input: string, tokens: Token[], i: number): Parsed | undefined {
+  const word = tokens[i].text;
+  const edit = (value: KpiEdit, end: number): Parsed => ({
+    intents: [{ kind: "kpi", edit: value, span: textSpan(input, tokens[i].start, end) }],
+    next: tokenAt(tokens, end),
+  });
+  const isKpiWord = (k: number) => KPI_WORDS.has(tokens[k]?.text) && tokens[k + 1]?.text !== "grid";
+
+  if (word === "add") {
+    const j = skipArticles(tokens, i + 1);
+    if (!isKpiWord(j)) return undefined;
+    const from = tokens[j + 1]?.text === ":" ? tokens[j + 1].end : tokens[j].end;
+    const end = searchFrom(CLAUSE_END_RE, input, from);
+    const kpi = parseKpi(input.slice(from, end));
+    return kpi ? edit({ op: "add", kpi }, end) : undefined;
+  }
+
+  if (word === "rename") {
+    const end = searchFrom(CLAUSE_END_RE, input, tokens[i].end);
+    const m = input
+      .slice(tokens[i].end, end)
+      .match(/^\s*(?:the\s+)?(?:(?:kpi|metric)\s+)?(.+?)(?:\s+(?:kpi|metric))?\s+to\s+(.+?)\s*$/i);
+    return m ? edit({ op: "rename", from: m[1], to: m[2] }, end) : undefined;
+  }
+
+  const negator = lookup(NEGATORS, tokens, i);
+  if (!negator) return undefined;
+  const j = skipArticles(tokens, i + negator.length);
+  if (j >= tokens.length) return undefined;
+
+  if (isKpiWord(j)) {
+    const end = searchFrom(CLAUSE_END_RE, input, tokens[j].end);
+    const label = input.slice(tokens[j].end, end).trim();
+    return label ? edit({ op: "remove", label: kpiLabel(label) }, end) : undefined;
+  }
+
+  const clause = tokenAt(tokens, searchFrom(CLAUSE_END_RE, input, tokens[j].start));
+  for (let k = j + 1; k < clause; k++) {
+    if (!isKpiWord(k)) continue;
+    const label = input.slice(tokens[j].start, tokens[k - 1].end);
+    return edit({ op: "remove", label: kpiLabel(label) }, tokens[k].end);
+  }
+  return undefined;
+}
+
+function readFlags(tokens: Token[], j: number): { spec: ChartEdit; next: number } {
+  const spec: ChartEdit = {};
+  for (let flag = lookup(CHART_FLAGS, tokens, j); flag; flag = lookup(CHART_FLAGS, tokens, j)) {
+    Object.assign(spec, flag.value);
+    j += flag.length;
+  }
+  return { spec, next: j };
+}
+
+// [another] [stacked|average|total] (line|bar) chart [of <series> [by <x>]]
+// [stacked] [with a legend]; the flags also stand alone ("no legend") and
+// then apply to the charts the prompt is already about.
+function parseChart(input: string, tokens: Token[], i: number): Parsed | undefined {
+  const standalone = readFlags(tokens, i);
+  if (standalone.next > i && !lookup(CHART_NOUNS, tokens, standalone.next)) {
+    const { spec, next } = standalone;
+    return { intents: [{ kind: "chart", target: "current", another: false, spec, span: span(tokens, i, next) }], next };
+  }
+
+  let j = i;
+  const another = lookup(ANOTHER, tokens, j);
+  if (another) j += another.length;
+  const spec: ChartEdit = {};
+  for (let m = readFlags(tokens, j); m.next > j; m = readFlags(tokens, j)) {
+    Object.assign(spec, m.spec);
+    j = m.next;
+  }
+  const prefix = lookup(AGGREGATE_WORDS, tokens, j);
+  if (prefix) {
+    spec.aggregate = prefix.value;
+    j += prefix.length;
+  }
+
+  const noun = lookup(CHART_NOUNS, tokens, j);
+  if (!noun) return undefined;
+  j += noun.length;
+
+  if (SERIES_LEADS.has(tokens[j]?.text)) {
+    const sentenceEnd = tokenAt(tokens, searchFrom(LIST_END_RE, input, tokens[j].end));
+    let k = j + 1;
+    const aggregate = lookup(AGGREGATE_WORDS, tokens, k);
+    if (aggregate) {
+      spec.aggregate = aggregate.value;
+      k += aggregate.length;
+    }
+
+    let marker = k;
+    while (marker < sentenceEnd && !AXIS_MARKERS.has(tokens[marker].text) && !lookup(CHART_FLAGS, tokens, marker)) {
+      marker++;
+    }
+    const fields = marker > k ? parseColumnList(input.slice(tokens[k].start, tokens[marker - 1].end)) : [];
+    if (fields.length > 0) {
+      spec.series = fields.slice(0, MAX_CHART_SERIES).map((field) => ({ field: field.slice(0, 80) }));
+      j = marker;
+    }
+
+    if (fields.length > 0 && AXIS_MARKERS.has(tokens[j]?.text)) {
+      const from = skipArticles(tokens, j + 1);
+      let to = from;
+      while (
+        to < sentenceEnd &&
+        to - from < MAX_AXIS_WORDS &&
+        /^[a-z0-9]/.test(tokens[to].text) &&
+        !LIST_WORDS.has(tokens[to].text) &&
+        !lookup(CHART_FLAGS, tokens, to)
+      ) {
+        to++;
+      }
+      if (to > from) {
+        const x = input.slice(tokens[from].start, tokens[to - 1].end);
+        spec.x = AXIS_ALIASES.get(x.toLowerCase()) ?? x;
+        j = to;
+      }
+    }
+  }
+
+  const trailing = readFlags(tokens, j);
+  Object.assign(spec, trailing.spec);
+  j = trailing.next;
+
+  if (Object.keys(spec).length === 0) return undefined;
+  return {
+    intents: [{ kind: "chart", target: noun.value, another: Boolean(another), spec, span: span(tokens, i, j) }],
+    next: j,
+  };
+}
+
+// put|move|place <component> (above|below|next to …) <component>
+// put|move|place <component> (to|in|into) <top|bottom|region>
+function parseMove(tokens: Token[], i: number): Parsed | undefined {
+  if (!MOVE_VERBS.has(tokens[i].text)) return undefined;
+  let j = skipArticles(tokens, i + 1);
+  const subject = lookup(componentWords(), tokens, j);
+  if (!subject) return undefined;
+  j += subject.length;
+
+  const placement = lookup(PLACEMENTS, tokens, j);
+  if (placement) {
+    const k = skipArticles(tokens, j + placement.length);
+    const anchor = lookup(componentWords(), tokens, k);
+    if (!anchor) return undefined;
+    const next = k + anchor.length;
+    const to: MoveTarget = { anchor: anchor.value, where: placement.value };
+    return { intents: [{ kind: "move", components: subject.value, to, span: span(tokens, i, next) }], next };
+  }
+
+  if (!["to", "in", "into"].includes(tokens[j]?.text)) return undefined;
+  const k = skipArticles(tokens, j + 1);
+  const destination = lookup(DESTINATIONS, tokens, k);
+  if (!destination) return undefined;
+  const next = k + destination.length;
+  return {
+    intents: [{ kind: "move", components: subject.value, to: destination.value, span: span(tokens, i, next) }],
+    next,
+  };
+}
+
+// "two-column main area", "main area in three columns"
+function parseColumns(tokens: Token[], i: number): Parsed | undefined {
+  const count = lookup(NUMBERS, tokens, i);
+  if (count && COLUMN_WORDS.has(tokens[i + count.length]?.text) && AREA_WORDS.has(tokens[i + count.length + 1]?.text)) {
+    const next = i + count.length + 2 + (tokens[i + count.length + 2]?.text === "area" ? 1 : 0);
+    return { intents: [{ kind: "set-columns", count: count.value, span: span(tokens, i, next) }], next };
+  }
+
+  if (tokens[i].text !== "main" && tokens[i].text !== "layout") return undefined;
+  let j = i + 1 + (tokens[i + 1]?.text === "area" ? 1 : 0);
+  if (!["in", "into", "as"].includes(tokens[j]?.text)) return undefined;
+  j++;
+  const n = lookup(NUMBERS, tokens, j);
+  if (!n || !COLUMN_WORDS.has(tokens[j + n.length]?.text)) return undefined;
+  const next = j + n.length + 1;
+  return { intents: [{ kind: "set-columns", count: n.value, span: span(tokens, i, next) }], next };
+}
+
+// A negator takes every component named in the list that follows it:
+// "no sidebar and no charts", "without tables or kpis". Layout and tone words
+// in the list are skipped rather than applied ("not a landing page", "not
+// enterprise"). Any other word ends the list.
+function parseRemoval(tokens: Token[], i: number): Parsed | undefined {
+  const negator = lookup(NEGATORS, tokens, i);
+  if (!negator) return undefined;
+
+  const intents: Intent[] = [];
+  let negated = false;
+  let from = i;
+  let j = i + negator.length;
+  while (j < tokens.length) {
+    const t = tokens[j].text;
+    if (ARTICLES.has(t) || LIST_WORDS.has(t)) {
+      j++;
+      continue;
+    }
+    const again = lookup(NEGATORS, tokens, j);
+    if (again) {
+      from = j;
+      j += again.length;
+      continue;
+    }
+    const target = lookup(componentWords(), tokens, j);
+    if (target) {
+      j += target.length;
+      intents.push({ kind: "remove", components: target.value, span: span(tokens, from, j) });
+      from = j;
+      continue;
+    }
+    const word = parseWord(tokens, j);
+    if (!word?.intents.every((intent) => intent.kind === "set-layout" || intent.kind === "set-tone")) break;
+    negated = true;
+    j = from = word.next;
+  }
+  return intents.length > 0 || negated ? { intents, next: j } : undefined;
+}
+
+function parseWord(tokens: Token[], i: number): Parsed | undefined {
+  const another = lookup(ANOTHER, tokens, i);
+  if (another) {
+    const j = i + another.length;
+    const target = lookup(componentWords(), tokens, j);
+    if (target) {
+      const next = j + target.length;
+      return { intents: [{ kind: "add", component: target.value[0], another: true, span: span(tokens, i, next) }], next };
+    }
+  }
+
+  const layout = lookup(LAYOUT_WORDS, tokens, i);
+  const component = lookup(componentWords(), tokens, i);
+  if (layout && layout.length >= (component?.length ?? 0)) {
+    const next = i + layout.length;
+    return { intents: [{ kind: "set-layout", layout: layout.value, span: span(tokens, i, next) }], next };
+  }
+  if (component) {
+    const next = i + component.length;
+    return {
+      intents: [{ kind: "add", component: component.value[0], another: false, span: span(tokens, i, next) }],
+      next,
+    };
+  }
+
+  const tone = lookup(TONE_WORDS, tokens, i);
+  if (tone) {
+    const next = i + tone.length;
+    return { intents: [{ kind: "set-tone", tone: tone.value, span: span(tokens, i, next) }], next };
+  }
+  return undefined;
+}
+
+function parseAt(input: string, tokens: Token[], i: number): Parsed | undefined {
+  const structured =
+    parseLabel(input, tokens, i) ??
+    parseKpiSection(input, tokens, i) ??
+    parseKpiEdit(input, tokens, i) ??
+    parseColumnSpec(input, tokens, i) ??
+    parseChart(input, tokens, i) ??
+    parseMove(tokens, i) ??
+    parseColumns(tokens, i);
+  if (structured) return structured;
+
+  // "no data" names the empty state rather than negating "data".
+  const negation = lookup(NEGATORS, tokens, i)?.length ?? 0;
+  const removal = negation >= (lookup(componentWords(), tokens, i)?.length ?? 0) ? parseRemoval(tokens, i) : undefined;
+  return removal ?? parseWord(tokens, i);
+}
+
+// Turns a prompt into intents in reading order. Words that match no rule are
+// skipped, so every intent can be traced back to the span that produced it.
+// Pasted tables are read as a whole so their cells don't trigger other rules.
+export function parsePrompt(input: string): Intent[] {
+  const tokens = tokenize(input);
+  const pasted = findPastedTables(input);
+  const intents: Intent[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const table = pasted.find((t) => tokens[i].start >= t.start && tokens[i].start < t.end);
+    if (table) {
+      const { source, start, end, ...data } = table;
+      intents.push({ kind: "table", table: data, source, span: { start, end } });
+      i = tokenAt(tokens, end);
+      continue;
+    }
+
+    const parsed = parseAt(input, tokens, i);
+    if (parsed) {
+      intents.push(...parsed.intents);
+      i = parsed.next;
+    } else {
+      i++;
+    }
+  }
+  return intents;
+}
@@ -0,0 +1,70 @@
+import type { Kpi } from "./components";
+
+export type KpiEdit =
+  | { op: "replace"; kpis: Kpi[] }
+  | { op: "add"; kpi: Kpi }
+  | { op: "rename"; from: string; to: string }
+  | { op: "remove"; label: string };
+
+export const MAX_KPIS = 12;
+
+// "MRR $42k (+8%)", "churn 2.1%", "NPS: 62 +3", "active users 1,204"
+const ENTRY_RE =
+  /^(.+?)\s*[:=]?\s+((?:[$€£¥]\s?)?[-+]?\d[\d,.]*\s?(?:[kmb](?![a-z])|%|ms(?![a-z])|x(?![a-z]))?)\s*(?:\(\s*([^)]*?)\s*\)|([-+]\d[\d,.]*%?))?$/i;
+
+function limit(s: string, max: number) {
+  return s.length > max ? s.slice(0, max).trimEnd() : s;
+}
+
+export function kpiLabel(raw: string) {
+  const label = limit(raw.trim().replace(/\s+/g, " "), 40);
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+// One KPI from free text. A bare label ("Revenue") gets a placeholder value.
+export function parseKpi(text: string): Kpi | undefined {
+  const entry = text.trim().replace(/^(?:and|or)\s+/i, "");
+  if (!entry) return undefined;
+
+  const m = entry.match(ENTRY_RE);
+  if (m) {
+    const delta = m[3] ?? m[4];
+    return { label: kpiLabel(m[1]), value: limit(m[2].trim(), 40), ...(delta ? { delta: limit(delta, 20) } : {}) };
+  }
+
+  const colon = entry.indexOf(":");
+  if (colon > 0 && colon < entry.length - 1) {
+    return { label: kpiLabel(entry.slice(0, colon)), value: limit(entry.slice(colon + 1).trim(), 40) };
+  }
+  return { label: kpiLabel(entry), value: "—" };
+}
+
+// Commas between digits belong to numbers ("1,204"), not the list.
+export function parseKpiList(text: string): Kpi[] {
+  return text
+    .split(/(?<!\d),|,(?!\d)|;|\s+and\s+/)
+    .map(parseKpi)
+    .filter((k): k is Kpi => k !== undefined)
+    .slice(0, MAX_KPIS);
+}
+
+const sameLabel = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Returns the edited list; labels match case-insensitively and unknown
+// labels leave the list as is.
+export function applyKpiEdit(kpis: Kpi[], edit: KpiEdit): Kpi[] {
+  switch (edit.op) {
+    case "replace":
+      return edit.kpis.map((k) => ({ ...k }));
+    case "add": {
+      if (kpis.some((k) => sameLabel(k.label, edit.kpi.label))) {
+        return kpis.map((k) => (sameLabel(k.label, edit.kpi.label) ? { ...edit.kpi } : k));
+      }
+      return kpis.length < MAX_KPIS ? [...kpis, { ...edit.kpi }] : kpis;
+    }
+    case "rename":
+      return kpis.map((k) => (sameLabel(k.label, edit.from) ? { ...k, label: kpiLabel(edit.to) } : k));
+    case "remove":
+      return kpis.filter((k) => !sameLabel(k.label, edit.label));
+  }
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { moveRelative, outlineNodes, setMainColumns } from "./layout";
+import type { LayoutNode, Regions } from "./types";
+
+function c(ref: string, span?: number): LayoutNode {
+  return span ? { kind: "component", ref, span } : { kind: "component", ref };
+}
+
+function regions(main: LayoutNode[]): Regions {
+  return { header: [c("topnav-1")], sidebar: [c("sidebar-1")], main, footer: [] };
+}
+
+describe("moveRelative", () => {
+  it("moves an instance before and after an anchor", () => {
+    const r = regions([c("kpigrid-1"), c("datatable-1"), c("emptystate-1")]);
+    assert.ok(moveRelative(r, ["emptystate-1"], "kpigrid-1", "before"));
+    assert.equal(outlineNodes(r.main), "emptystate-1 / kpigrid-1 / datatable-1");
+    assert.ok(moveRelative(r, ["emptystate-1"], "datatable-1", "after"));
+    assert.equal(outlineNodes(r.main), "kpigrid-1 / datatable-1 / emptystate-1");
+  });
+
+  it("moves across regions", () => {
+    const r = regions([c("kpigrid-1"), c("datatable-1")]);
+    assert.ok(moveRelative(r, ["sidebar-1"], "datatable-1", "after"));
+    assert.deepEqual(r.sidebar, []);
+    assert.equal(outlineNodes(r.main), "kpigrid-1 / datatable-1 / sidebar-1");
+  });
+
+  it("puts an instance beside the anchor in a row, dropping the anchor's span", () => {
+    const r = regions([c("kpigrid-1", 6), c("datatable-1")]);
+    assert.ok(moveRelative(r, ["datatable-1"], "kpigrid-1", "beside"));
+    assert.equal(outlineNodes(r.main), "row(kpigrid-1, datatable-1)");
+  });
+
+  it("joins an existing row when placed beside an instance in it", () => {
+    const chartRow: LayoutNode = { kind: "row", children: [c("linechartcard-1"), c("barchartcard-1")] };
+    const r = regions([chartRow, c("piechartcard-1")]);
+    assert.ok(moveRelative(r, ["piechartcard-1"], "barchartcard-1", "beside"));
+    assert.equal(outlineNodes(r.main), "row(linechartcard-1, barchartcard-1, piechartcard-1)");
+  });
+
+  it("moves a whole row and keeps its shape", () => {
+    const chartRow: LayoutNode = { kind: "row", children: [c("linechartcard-1"), c("barchartcard-1")] };
+    const r = regions([c("kpigrid-1"), chartRow, c("datatable-1")]);
+    assert.ok(moveRelative(r, ["linechartcard-1", "barchartcard-1"], "datatable-1", "after"));
+    assert.equal(outlineNodes(r.main), "kpigrid-1 / datatable-1 / row(linechartcard-1, barchartcard-1)");
+  });
+
+  it("leaves the tree alone when the anchor is missing or moving", () => {
+    const r = regions([c("kpigrid-1"), c("datatable-1")]);
+    const before = structuredClone(r);
+    assert.equal(moveRelative(r, ["datatable-1"], "nope-1", "before"), false);
+    assert.equal(moveRelative(r, ["datatable-1"], "datatable-1", "after"), false);
+    assert.equal(moveRelative(r, [], "kpigrid-1", "after"), false);
+    assert.deepEqual(r, before);
+  });
+});
+
+describe("setMainColumns", () => {
+  const main = () => [c("kpigrid-1"), c("linechartcard-1"), c("datatable-1"), c("emptystate-1")];
+
+  it("splits the main area into equal columns in reading order", () => {
+    const r = regions(main());
+    setMainColumns(r, 2);
+    const columns = "column@6(kpigrid-1, linechartcard-1), column@6(datatable-1, emptystate-1)";
+    assert.equal(outlineNodes(r.main), `row(${columns})`);
+  });
+
+  it("uses no more columns than there are blocks", () => {
+    const r = regions([c("kpigrid-1"), c("datatable-1")]);
+    setMainColumns(r, 3);
+    assert.equal(outlineNodes(r.main), "row(column@4(kpigrid-1), column@4(datatable-1))");
+  });
+
+  it("re-flows an existing split and undoes it with one column", () => {
+    const r = regions(main());
+    setMainColumns(r, 2);
+    setMainColumns(r, 3);
+    // Four blocks fill only two columns of two.
+    const columns = "column@4(kpigrid-1, linechartcard-1), column@4(datatable-1, emptystate-1)";
+    assert.equal(outlineNodes(r.main), `row(${columns})`);
+    setMainColumns(r, 1);
+    assert.deepEqual(r.main, main());
+  });
+});
@@ -0,0 +1,260 @@
+import { CHART_COMPONENTS } from "./presentation";
+import { customComponent } from "./registry";
+import type {
+  ComponentName,
+  ContainerNode,
+  LayoutNode,
+  RegionName,
+  Regions,
+  UIPlan,
+} from "./types";
+
+type Placeable = { id: string; type: ComponentName };
+
+// Where newly placed instances land relative to existing ones.
+export const CANONICAL_ORDER: ComponentName[] = [
+  "AppShell",
+  "TopNav",
+  "Sidebar",
+  "Hero",
+  "KPIGrid",
+  "LineChartCard",
+  "BarChartCard",
+  "FeatureGrid",
+  "TabsPanel",
+  "DataTable",
+  "PricingTable",
+  "Testimonial",
+  "FAQAccordion",
+  "FormCard",
+  "EmptyState",
+  "SettingsModal",
+  "Footer",
+];
+
+// Registered components read after the built-in content, before the empty
+// state, settings and footer.
+const CUSTOM_RANK = CANONICAL_ORDER.indexOf("EmptyState") - 0.5;
+
+export function componentRank(type: ComponentName) {
+  const rank = CANONICAL_ORDER.indexOf(type);
+  return rank === -1 ? CUSTOM_RANK : rank;
+}
+
+export const MAX_LAYOUT_DEPTH = 4;
+
+export function emptyRegions(): Regions {
+  return { header: [], sidebar: [], main: [], footer: [] };
+}
+
+// AppShell is the page frame itself and never appears in the tree.
+export function defaultRegion(type: ComponentName): RegionName | undefined {
+  if (type === "AppShell") return undefined;
+  if (type === "TopNav") return "header";
+  if (type === "Sidebar") return "sidebar";
+  if (type === "Footer") return "footer";
+  return customComponent(type)?.region ?? "main";
+}
+
+// Instance ids in reading order.
+export function leafIds(nodes: LayoutNode[]): string[] {
+  return nodes.flatMap((n) => (n.kind === "component" ? [n.ref] : leafIds(n.children)));
+}
+
+// A main area split into columns is a single row whose children are all columns.
+export function splitColumns(nodes: LayoutNode[]): ContainerNode[] | undefined {
+  const [only] = nodes;
+  if (nodes.length !== 1 || only.kind !== "row") return undefined;
+  if (!only.children.every((c) => c.kind === "column")) return undefined;
+  return only.children as ContainerNode[];
+}
+
+function isChartRow(node: LayoutNode, typeOf: Map<string, ComponentName>): node is ContainerNode {
+  return (
+    node.kind === "row" &&
+    node.children.every((c) => c.kind === "component" && CHART_COMPONENTS.includes(typeOf.get(c.ref)!))
+  );
+}
+
+function rankOf(node: LayoutNode, typeOf: Map<string, ComponentName>) {
+  return Math.min(...leafIds([node]).map((id) => componentRank(typeOf.get(id)!)));
+}
+
+function place(regions: Regions, typeOf: Map<string, ComponentName>, instance: Placeable) {
+  const region = defaultRegion(instance.type);
+  if (!region) return;
+  typeOf.set(instance.id, instance.type);
+
+  let list = regions[region];
+  const columns = splitColumns(list);
+  if (columns) {
+    list = columns.reduce((a, b) => (leafIds(b.children).length < leafIds(a.children).length ? b : a)).children;
+  }
+
+  let node: LayoutNode = { kind: "component", ref: instance.id };
+  if (CHART_COMPONENTS.includes(instance.type)) {
+    const row = list.find((n): n is ContainerNode => isChartRow(n, typeOf));
+    if (row) {
+      row.children.push(node);
+      return;
+    }
+    node = { kind: "row", children: [node] };
+  }
+
+  const rank = componentRank(instance.type);
+  const at = list.findIndex((n) => rankOf(n, typeOf) > rank);
+  if (at === -1) list.push(node);
+  else list.splice(at, 0, node);
+}
+
+function typesOf(plan: Pick<UIPlan, "components">) {
+  return new Map(plan.components.map((c) => [c.id, c.type]));
+}
+
+export function defaultRegions(components: Placeable[]): Regions {
+  const regions = emptyRegions();
+  const typeOf = new Map<string, ComponentName>();
+  for (const c of components) place(regions, typeOf, c);
+  return regions;
+}
+
+// Places an instance that is already in plan.components at its default spot.
+export function placeInstance(plan: UIPlan, instance: Placeable) {
+  place(plan.regions, typesOf(plan), instance);
+}
+
+// Drops emptied containers; a row left holding one column dissolves into
+// that column's children.
+function prune(nodes: LayoutNode[]): LayoutNode[] {
+  return nodes
+    .map((n) => (n.kind === "component" ? n : { ...n, children: prune(n.children) }))
+    .filter((n) => n.kind === "component" || n.children.length > 0)
+    .flatMap((n) => {
+      const [only] = n.kind === "row" && n.children.length === 1 ? n.children : [];
+      return only?.kind === "column" ? only.children : [n];
+    });
+}
+
+function removeWhere(nodes: LayoutNode[], match: (n: LayoutNode) => boolean): LayoutNode[] {
+  return nodes
+    .filter((n) => !match(n))
+    .map((n) => (n.kind === "component" ? n : { ...n, children: removeWhere(n.children, match) }));
+}
+
+function withoutSpan(node: LayoutNode): LayoutNode {
+  const { span: _span, ...rest } = node;
+  return rest;
+}
+
+// Takes the given instances out of the tree and returns them as one node.
+// A row holding exactly those instances moves whole, so a chart row keeps
+// its shape.
+export function detach(regions: Regions, ids: string[]): LayoutNode | undefined {
+  const wanted = new Set(ids);
+  const matches = (n: LayoutNode) => {
+    if (n.kind === "column") return false;
+    const leaves = leafIds([n]);
+    return leaves.length === wanted.size && leaves.every((id) => wanted.has(id));
+  };
+
+  const all = Object.values(regions).flat();
+  const stack = [...all];
+  let whole: LayoutNode | undefined;
+  while (stack.length > 0 && !whole) {
+    const n = stack.shift()!;
+    if (matches(n)) whole = n;
+    else if (n.kind !== "component") stack.push(...n.children);
+  }
+
+  const leaves: LayoutNode[] = leafIds(all)
+    .filter((id) => wanted.has(id))
+    .map((ref) => ({ kind: "component", ref }));
+  if (!whole && leaves.length === 0) return undefined;
+
+  for (const region of Object.keys(regions) as RegionName[]) {
+    regions[region] = prune(
+      removeWhere(regions[region], (n) => (whole ? n === whole : n.kind === "component" && wanted.has(n.ref))),
+    );
+  }
+
+  if (whole) return withoutSpan(whole);
+  return leaves.length === 1 ? leaves[0] : { kind: "row", children: leaves };
+}
+
+// The slot holding `id` in the innermost vertical list (a region or a column).
+function anchorOf(
+  list: LayoutNode[],
+  vertical: boolean,
+  id: string,
+): { list: LayoutNode[]; index: number } | undefined {
+  const index = list.findIndex((n) => leafIds([n]).includes(id));
+  if (index === -1) return undefined;
+  const node = list[index];
+  const inner = node.kind === "component" ? undefined : anchorOf(node.children, node.kind === "column", id);
+  return inner ?? (vertical ? { list, index } : undefined);
+}
+
+export type Placement = "before" | "after" | "beside";
+
+// Moves instances next to the slot holding `anchorId`. Returns false when
+// either side is missing or the anchor is itself being moved.
+export function moveRelative(regions: Regions, ids: string[], anchorId: string, where: Placement): boolean {
+  if (ids.length === 0 || ids.includes(anchorId)) return false;
+  if (!leafIds(Object.values(regions).flat()).includes(anchorId)) return false;
+
+  const node = detach(regions, ids);
+  if (!node) return false;
+
+  for (const region of Object.keys(regions) as RegionName[]) {
+    const anchor = anchorOf(regions[region], true, anchorId);
+    if (!anchor) continue;
+    const target = anchor.list[anchor.index];
+    if (where === "beside") {
+      const added = node.kind === "row" ? node.children : [node];
+      anchor.list[anchor.index] =
+        target.kind === "row"
+          ? { ...target, children: [...target.children, ...added] }
+          : { kind: "row", children: [withoutSpan(target), ...added] };
+    } else {
+      anchor.list.splice(where === "before" ? anchor.index : anchor.index + 1, 0, node);
+    }
+    return true;
+  }
+  return false;
+}
+
+export function moveToRegion(regions: Regions, ids: string[], region: RegionName, at: "start" | "end" = "end") {
+  const node = detach(regions, ids);
+  if (!node) return false;
+  if (at === "start") regions[region].unshift(node);
+  else regions[region].push(node);
+  return true;
+}
+
+// Re-flows the main area into `count` equal columns, keeping reading order.
+// One column undoes a split.
+export function setMainColumns(regions: Regions, count: number) {
+  const blocks = regions.main.flatMap((n) => splitColumns([n])?.flatMap((c) => c.children) ?? [n]);
+  if (count <= 1 || blocks.length <= 1) {
+    regions.main = blocks;
+    return;
+  }
+
+  const size = Math.ceil(blocks.length / count);
+  const span = Math.floor(12 / count);
+  const children: LayoutNode[] = [];
+  for (let i = 0; i < count && i * size < blocks.length; i++) {
+    children.push({ kind: "column", span, children: blocks.slice(i * size, (i + 1) * size) });
+  }
+  regions.main = [{ kind: "row", children }];
+}
+
+// Compact text form used by diffs, e.g. "kpigrid-1 / row(linechartcard-1, barchartcard-1)".
+export function outlineNodes(nodes: LayoutNode[], separator = " / "): string {
+  return nodes
+    .map((n) => {
+      const span = n.span ? `@${n.span}` : "";
+      return n.kind === "component" ? n.ref + span : `${n.kind}${span}(${outlineNodes(n.children, ", ")})`;
+    })
+    .join(separator);
+}
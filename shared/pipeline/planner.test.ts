@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planner } from "./planner";
+import type { ComponentName, UIPlan } from "./types";
+
+function types(plan: UIPlan): ComponentName[] {
+  return plan.components.map((c) => c.type);
+}
+
+describe("planner negation", () => {
+  it("removes the sidebar for \"I don't want a sidebar\"", () => {
+    const plan = planner("Create a dashboard. I don't want a sidebar", undefined);
+    assert.ok(!types(plan).includes("Sidebar"));
+    assert.ok(types(plan).includes("DataTable"));
+  });
+
+  it("removes the table for \"don't show the table\"", () => {
+    const plan = planner("Create a dashboard, don't show the table", undefined);
+    assert.ok(!types(plan).includes("DataTable"));
+    assert.ok(types(plan).includes("Sidebar"));
+  });
+
+  it("removes the bar chart for \"no more bar chart\"", () => {
+    const prev = planner("Create a dashboard with a bar chart", undefined);
+    assert.ok(types(prev).includes("BarChartCard"));
+    const plan = planner("no more bar chart", prev);
+    assert.ok(!types(plan).includes("BarChartCard"));
+    assert.ok(types(plan).includes("LineChartCard"));
+  });
+
+  it("removes components for \"do not include\", \"do not want\" and \"don't need\"", () => {
+    assert.ok(!types(planner("Create a dashboard, do not include a table", undefined)).includes("DataTable"));
+    assert.ok(!types(planner("Create a dashboard but do not want a sidebar", undefined)).includes("Sidebar"));
+    assert.ok(!types(planner("Create a dashboard, we don't need charts", undefined)).includes("LineChartCard"));
+  });
+
+  it("removes components after a bare \"not\"", () => {
+    const plan = planner("Create a dashboard with a table, not a sidebar", undefined);
+    assert.ok(!types(plan).includes("Sidebar"));
+    assert.ok(types(plan).includes("DataTable"));
+  });
+
+  it("still reads \"not stacked\" as a chart flag and \"no data\" as the empty state", () => {
+    const prev = planner("Create a dashboard with a stacked bar chart", undefined);
+    const plan = planner("make the bar chart not stacked", prev);
+    const bar = plan.components.find((c) => c.type === "BarChartCard");
+    assert.equal(bar?.type === "BarChartCard" && bar.props.stacked, false);
+    assert.ok(types(planner("Create a dashboard with no data", undefined)).includes("EmptyState"));
+  });
+
+  it("keeps the layout for \"Create a dashboard, not a landing page\"", () => {
+    const plan = planner("Create a dashboard, not a landing page", undefined);
+    assert.equal(plan.layout, "dashboard");
+    assert.ok(types(plan).includes("Sidebar"));
+    assert.ok(!types(plan).includes("Hero"));
+  });
+
+  it("keeps the tone for \"Make it playful, not enterprise\"", () => {
+    const prev = planner("Create a dashboard", undefined);
+    assert.equal(planner("Make it playful, not enterprise", prev).tone, "playful");
+  });
+});
+
+describe("planner KPI edits", () => {
+  it("creates the grid with only the added KPI", () => {
+    const prev = planner("Create a settings page", undefined);
+    assert.ok(!types(prev).includes("KPIGrid"));
+    const grid = planner("add KPI NPS 62", prev).components.find((c) => c.type === "KPIGrid");
+    assert.deepEqual(grid?.type === "KPIGrid" && grid.props.kpis, [{ label: "NPS", value: "62" }]);
+  });
+
+  it("treats a grid without kpis as empty", () => {
+    const prev = planner("Create a dashboard", undefined);
+    const bare = (): UIPlan => ({
+      ...prev,
+      components: prev.components.map((c) => (c.type === "KPIGrid" ? ({ ...c, props: {} } as typeof c) : c)),
+    });
+    const added = planner("add KPI NPS 5", bare()).components.find((c) => c.type === "KPIGrid");
+    assert.deepEqual(added?.type === "KPIGrid" && added.props.kpis, [{ label: "NPS", value: "5" }]);
+    const renamed = planner("rename KPI a to b", bare()).components.find((c) => c.type === "KPIGrid");
+    assert.deepEqual(renamed?.type === "KPIGrid" && renamed.props.kpis, []);
+  });
+});
@@ -0,0 +1,415 @@
+import { chartTitle, fitSpecToColumns, type ChartEdit } from "./charts";
+import { defaultProps, propsSchema } from "./components";
+import { datasetTable, type DatasetData } from "./datasets";
+import { parsePrompt, type ChartTarget, type Intent } from "./intents";
+import { applyKpiEdit, type KpiEdit } from "./kpis";
+import {
+  componentRank,
+  defaultRegions,
+  detach,
+  leafIds,
+  moveRelative,
+  moveToRegion,
+  placeInstance,
+  setMainColumns,
+} from "./layout";
+import { DEFAULT_POLICY, type GuardrailPolicy } from "./policy";
+import { CHART_COMPONENTS } from "./presentation";
+import {
+  ALLOWED_COMPONENTS,
+  clampText,
+  instancesOf,
+  REGION_NAMES,
+  type ComponentInstance,
+  type ComponentName,
+  type UIPlan,
+} from "./types";
+import type { ValidationIssue } from "./validate";
+
+function instanceId(plan: UIPlan, type: ComponentName) {
+  const taken = new Set(plan.components.map((c) => c.id));
+  let n = 1;
+  while (taken.has(`${type.toLowerCase()}-${n}`)) n++;
+  return `${type.toLowerCase()}-${n}`;
+}
+
+function createInstance<K extends ComponentName>(
+  plan: UIPlan,
+  type: K,
+  props: ComponentInstance<K>["props"] = defaultProps(type),
+): ComponentInstance {
+  return { id: instanceId(plan, type), type, props } as ComponentInstance;
+}
+
+function insertInstance(plan: UIPlan, instance: ComponentInstance) {
+  const rank = componentRank(instance.type);
+  const at = plan.components.findIndex((c) => componentRank(c.type) > rank);
+  if (at === -1) plan.components.push(instance);
+  else plan.components.splice(at, 0, instance);
+  placeInstance(plan, instance);
+}
+
+// Adds one instance of `type` unless the plan already has one; returns the
+// first instance either way.
+function ensure(plan: UIPlan, type: ComponentName): ComponentInstance {
+  const existing = plan.components.find((c) => c.type === type);
+  if (existing) return existing;
+  const instance = createInstance(plan, type);
+  insertInstance(plan, instance);
+  return instance;
+}
+
+function idsOf(plan: UIPlan, types: ComponentName[]) {
+  return plan.components.filter((c) => types.includes(c.type)).map((c) => c.id);
+}
+
+function removeInstances(plan: UIPlan, types: ComponentName[]) {
+  const ids = idsOf(plan, types);
+  if (ids.length === 0) return;
+  plan.components = plan.components.filter((c) => !ids.includes(c.id));
+  detach(plan.regions, ids);
+}
+
+// What a landing page starts from; earlier components are replaced.
+const LANDING_COMPONENTS: ComponentName[] = ["AppShell", "TopNav", "Hero", "FeatureGrid", "PricingTable", "Footer"];
+
+function setLayout(plan: UIPlan, layout: UIPlan["layout"]) {
+  plan.layout = layout;
+
+  if (layout === "dashboard") {
+    ensure(plan, "Sidebar");
+    ensure(plan, "KPIGrid");
+    ensure(plan, "LineChartCard");
+    ensure(plan, "DataTable");
+  }
+
+  if (layout === "landing") {
+    plan.content.subtitle = "Describe a UI in chat, and watch it render deterministically.";
+    plan.components = [];
+    for (const type of LANDING_COMPONENTS) plan.components.push(createInstance(plan, type));
+    plan.regions = defaultRegions(plan.components);
+  }
+
+  if (layout === "settings") {
+    plan.content.subtitle = "Ship safe customization without letting the model freestyle UI.";
+    ensure(plan, "SettingsModal");
+    ensure(plan, "DataTable");
+  }
+}
+
+function addInstance(plan: UIPlan, type: ComponentName, another: boolean): ComponentInstance {
+  if (!another) return ensure(plan, type);
+  const instance =
+    type === "DataTable"
+      ? createInstance(plan, type, { ...defaultProps("DataTable"), title: "Table" })
+      : createInstance(plan, type);
+  insertInstance(plan, instance);
+  return instance;
+}
+
+// New KPIs go to the first grid; a grid created for them starts empty rather
+// than with the demo KPIs. Renames and removals apply to every grid. Plans
+// from the wire are only shape-checked, so a grid may come without `kpis`.
+function editKpis(plan: UIPlan, edit: KpiEdit) {
+  const creates = edit.op === "replace" || edit.op === "add";
+  if (creates && instancesOf(plan, "KPIGrid").length === 0) {
+    insertInstance(plan, createInstance(plan, "KPIGrid", { kpis: [] }));
+  }
+  const grids = instancesOf(plan, "KPIGrid");
+  for (const grid of creates ? grids.slice(0, 1) : grids) {
+    grid.props.kpis = applyKpiEdit(grid.props.kpis ?? [], edit);
+  }
+}
+
+function chartsOf(plan: UIPlan) {
+  return plan.components.filter((c) => CHART_COMPONENTS.includes(c.type));
+}
+
+// Naming new series or a new axis retitles the chart after them.
+function editChart(instance: ComponentInstance, edit: ChartEdit) {
+  if (instance.type !== "LineChartCard" && instance.type !== "BarChartCard") return;
+  const props = { ...instance.props, ...edit };
+  if (edit.series || edit.x) props.title = chartTitle(props);
+  instance.props = props;
+}
+
+// Charts a chart intent lands on. "current" means the chart the prompt
+// already named, else every chart in the plan; "any" and "all" add a line
+// chart when the plan has none.
+function chartTargets(plan: UIPlan, target: ChartTarget, another: boolean, mentioned?: ComponentInstance) {
+  if (target === "current") return mentioned ? [mentioned] : chartsOf(plan);
+  if (target === "all" && !another) {
+    const all = chartsOf(plan);
+    return all.length > 0 ? all : [addInstance(plan, "LineChartCard", false)];
+  }
+  if (target === "any" || target === "all") {
+    if (another) return [addInstance(plan, "LineChartCard", true)];
+    const existing = mentioned ?? chartsOf(plan)[0];
+    return [existing ?? addInstance(plan, "LineChartCard", false)];
+  }
+  return [addInstance(plan, target, another)];
+}
+
+function lastOf<K extends Intent["kind"]>(intents: Intent[], kind: K) {
+  return intents.filter((i): i is Extract<Intent, { kind: K }> => i.kind === kind).pop();
+}
+
+// Applies intents in a fixed order regardless of where they appear in the
+// prompt: layout resets first, then additions, KPI edits, removals, and moves,
+// so "no charts" always wins over a dashboard's default chart.
+export function applyIntents(intents: Intent[], prev?: UIPlan): UIPlan {
+  const base: UIPlan = {
+    layout: "dashboard",
+    tone: "bold",
+    components: [
+      { id: "appshell-1", type: "AppShell", props: {} },
+      { id: "topnav-1", type: "TopNav", props: {} },
+    ],
+    regions: defaultRegions([{ id: "topnav-1", type: "TopNav" }]),
+    content: {
+      title: "Deterministic UI Builder",
+      subtitle: "Planner → Generator → Explainer (fixed components, safe output).",
+    },
+  };
+
+  const plan = prev ? structuredClone(prev) : base;
+
+  const tone = lastOf(intents, "set-tone");
+  if (tone) plan.tone = tone.tone;
+
+  const layout = lastOf(intents, "set-layout");
+  if (layout) setLayout(plan, layout.layout);
+
+  const title = lastOf(intents, "set-title");
+  if (title) plan.content.title = clampText(title.title, 80);
+
+  // Table data lands on the table the prompt last mentioned ("another
+  // table with columns a, b"), or the first table; chart flags likewise.
+  let table: ComponentInstance | undefined;
+  let chart: ComponentInstance | undefined;
+  for (const intent of intents) {
+    if (intent.kind === "set-content") plan.content[intent.field] = clampText(intent.value, 160);
+    if (intent.kind === "add") {
+      const instance = addInstance(plan, intent.component, intent.another);
+      if (instance.type === "DataTable") table = instance;
+      if (CHART_COMPONENTS.includes(instance.type)) chart = instance;
+    }
+    if (intent.kind === "chart") {
+      const targets = chartTargets(plan, intent.target, intent.another, chart);
+      for (const target of targets) editChart(target, intent.spec);
+      if (intent.target !== "current" && targets.length === 1) chart = targets[0];
+    }
+    if (intent.kind === "table") {
+      table ??= ensure(plan, "DataTable");
+      if (table.type === "DataTable") table.props = { ...table.props, ...intent.table };
+    }
+  }
+
+  for (const intent of intents) {
+    if (intent.kind === "kpi") editKpis(plan, intent.edit);
+  }
+
+  for (const intent of intents) {
+    if (intent.kind === "remove") removeInstances(plan, intent.components);
+  }
+
+  for (const intent of intents) {
+    if (intent.kind === "set-columns") setMainColumns(plan.regions, intent.count);
+    if (intent.kind !== "move") continue;
+    const ids = idsOf(plan, intent.components);
+    if (ids.length === 0) continue;
+    if ("region" in intent.to) {
+      moveToRegion(plan.regions, ids, intent.to.region, intent.to.at);
+    } else {
+      const [anchor] = idsOf(plan, intent.to.anchor);
+      if (anchor) moveRelative(plan.regions, ids, anchor, intent.to.where);
+    }
+  }
+
+  return plan;
+}
+
+// Points the first table and every chart card at an uploaded dataset. A plan
+// with neither gets a table. The table also keeps a snapshot of the first
+// rows so generated code shows the same data; charts switch to columns the
+// dataset has.
+export function bindDataset(prev: UIPlan, dataset: DatasetData): UIPlan {
+  const plan = structuredClone(prev);
+  const charts = [...instancesOf(plan, "LineChartCard"), ...instancesOf(plan, "BarChartCard")];
+  const [table] = instancesOf(plan, "DataTable");
+
+  if (table || charts.length === 0) {
+    const target = table ?? ensure(plan, "DataTable");
+    if (target.type === "DataTable") {
+      const title = dataset.name.replace(/\.[a-z0-9]+$/i, "") || target.props.title;
+      target.props = { title: clampText(title, 80), ...datasetTable(dataset), dataset: dataset.id };
+    }
+  }
+  for (const chart of charts) {
+    const fitted = fitSpecToColumns(chart.props, dataset.columns, chart.type === "LineChartCard" ? "line" : "bar");
+    const moved = fitted && JSON.stringify([fitted.x, fitted.series]) !== JSON.stringify([chart.props.x, chart.props.series]);
+    chart.props = { ...chart.props, dataset: dataset.id };
+    if (moved) editChart(chart, { x: fitted.x, series: fitted.series });
+  }
+  return plan;
+}
+
+type Path = Array<string | number>;
+
+function valueAt(value: unknown, path: Path): unknown {
+  return path.reduce<unknown>(
+    (v, key) => (v && typeof v === "object" ? (v as Record<string, unknown>)[key] : undefined),
+    value,
+  );
+}
+
+function setAt(value: unknown, path: Path, next: unknown) {
+  const parent = valueAt(value, path.slice(0, -1));
+  if (parent && typeof parent === "object") (parent as Record<string, unknown>)[path[path.length - 1]] = next;
+}
+
+// Field-level fixes for props that fail their schema: unknown keys go,
+// oversize strings and lists are trimmed, and missing or invalid values are
+// taken from the defaults. Anything still invalid resets to the defaults.
+function repairProps(instance: ComponentInstance): string[] {
+  const schema = propsSchema(instance.type);
+  const parsed = schema.safeParse(instance.props);
+  if (parsed.success) return [];
+
+  const defaults = defaultProps(instance.type);
+  const props = structuredClone(instance.props ?? {});
+  const notes: string[] = [];
+  for (const issue of parsed.error.issues) {
+    const field = issue.path.join(".");
+    if (issue.code === "unrecognized_keys") {
+      const target = valueAt(props, issue.path) as Record<string, unknown> | undefined;
+      for (const key of issue.keys) delete target?.[key];
+      notes.push(`Removed unknown prop ${issue.keys.join(", ")} from ${instance.id}`);
+      continue;
+    }
+    const value = valueAt(props, issue.path);
+    if (issue.code === "too_big" && (typeof value === "string" || Array.isArray(value)) && field) {
+      const max = Number(issue.maximum);
+      setAt(props, issue.path, value.slice(0, max));
+      notes.push(`Trimmed ${instance.id} ${field} to ${max} ${typeof value === "string" ? "characters" : "items"}`);
+      continue;
+    }
+    const fallback = valueAt(defaults, issue.path);
+    if (fallback !== undefined && field) {
+      setAt(props, issue.path, structuredClone(fallback));
+      notes.push(`Filled in ${instance.id} ${field} from the defaults`);
+    }
+  }
+
+  if (schema.safeParse(props).success) {
+    instance.props = props;
+    return notes;
+  }
+  instance.props = defaults;
+  return [`Reset ${instance.id} props to the defaults`];
+}
+
+// Deterministic fixes for the errors validatePlan reported: components off
+// the whitelist are dropped, missing content is filled in, oversize fields
+// are trimmed, the layout is rebuilt, and policy violations are resolved
+// where a fix is unambiguous. Returns what was changed; an empty list means
+// nothing could be repaired.
+export function repairPlan(
+  prev: UIPlan,
+  issues: ValidationIssue[],
+  policy: GuardrailPolicy = DEFAULT_POLICY,
+): { plan: UIPlan; corrections: string[] } {
+  const plan = structuredClone(prev);
+  const corrections: string[] = [];
+  const rules = new Set(issues.filter((i) => i.severity === "error").map((i) => i.rule));
+  if (!Array.isArray(plan.components)) return { plan, corrections };
+
+  if (rules.has("plan.layout")) {
+    plan.layout = "dashboard";
+    corrections.push("Set the missing layout to dashboard");
+  }
+  if (rules.has("plan.tone")) {
+    plan.tone = "minimal";
+    corrections.push("Set the missing tone to minimal");
+  }
+  if (rules.has("plan.title")) {
+    plan.content = { ...plan.content, title: "Untitled UI" };
+    corrections.push('Filled in the missing title as "Untitled UI"');
+  }
+
+  if (rules.has("component.allowed")) {
+    const banned = plan.components.filter((c) => !ALLOWED_COMPONENTS.has(c.type));
+    plan.components = plan.components.filter((c) => ALLOWED_COMPONENTS.has(c.type));
+    if (plan.regions) detach(plan.regions, banned.map((c) => c.id));
+    for (const c of banned) corrections.push(`Removed ${c.type} (not on the component whitelist)`);
+  }
+
+  if (rules.has("component.id") || rules.has("component.unique-id")) {
+    const seen = new Set<string>();
+    for (const c of plan.components) {
+      if (!c.id || seen.has(c.id)) {
+        const old = c.id;
+        c.id = instanceId(plan, c.type);
+        corrections.push(old ? `Renamed duplicate id ${old} to ${c.id}` : `Gave ${c.type} the id ${c.id}`);
+      }
+      seen.add(c.id);
+    }
+  }
+
+  if (rules.has("props.schema")) {
+    for (const c of plan.components) corrections.push(...repairProps(c));
+  }
+
+  const placeable = plan.components.filter((c) => c.type !== "AppShell");
+  if (!plan.regions || Array.from(rules).some((r) => r.startsWith("layout.") && r !== "layout.unplaced")) {
+    plan.regions = defaultRegions(placeable);
+    corrections.push("Rebuilt the layout from the default placement");
+  } else {
+    const placed = new Set(REGION_NAMES.flatMap((r) => leafIds(plan.regions[r] ?? [])));
+    for (const c of placeable.filter((c) => !placed.has(c.id))) {
+      placeInstance(plan, c);
+      corrections.push(`Placed ${c.id} in the layout`);
+    }
+  }
+
+  const { maxComponents, requiredComponents, forbiddenCombinations, titleLength } = policy;
+  if (rules.has("policy.forbidden-combination")) {
+    for (const combination of forbiddenCombinations.combinations) {
+      const types = plan.components.map((c) => c.type as string);
+      if (!combination.every((type) => types.includes(type))) continue;
+      const last = combination[combination.length - 1];
+      removeInstances(plan, [last as ComponentName]);
+      corrections.push(`Removed ${last} (may not be used with ${combination.slice(0, -1).join(", ")})`);
+    }
+  }
+  const required = requiredComponents.byLayout[plan.layout] ?? [];
+  if (rules.has("policy.required-components")) {
+    for (const type of required.filter((t) => ALLOWED_COMPONENTS.has(t))) {
+      if (plan.components.some((c) => c.type === type)) continue;
+      ensure(plan, type as ComponentName);
+      corrections.push(`Added ${type} (required on ${plan.layout} pages)`);
+    }
+  }
+  const extra = plan.components.length - maxComponents.limit;
+  if (rules.has("policy.max-components") && extra > 0) {
+    const dropped = plan.components
+      .filter((c) => c.type !== "AppShell" && !required.includes(c.type))
+      .slice(-extra)
+      .map((c) => c.id);
+    if (dropped.length > 0) {
+      plan.components = plan.components.filter((c) => !dropped.includes(c.id));
+      detach(plan.regions, dropped);
+      corrections.push(`Removed ${dropped.join(", ")} to stay within ${maxComponents.limit} components`);
+    }
+  }
+  if (rules.has("policy.title-length") && plan.content.title.length > titleLength.max) {
+    plan.content.title = plan.content.title.slice(0, titleLength.max).trimEnd();
+    corrections.push(`Shortened the title to ${titleLength.max} characters`);
+  }
+
+  return { plan, corrections };
+}
+
+export function planner(userText: string, prev?: UIPlan): UIPlan {
+  return applyIntents(parsePrompt(userText), prev);
+}
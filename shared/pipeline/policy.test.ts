@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planner } from "./planner";
+import { DEFAULT_POLICY, describePolicy, guardrailPolicySchema, policyIssues, type GuardrailPolicy } from "./policy";
+import { validatePlan } from "./validate";
+
+const dashboard = planner("Create a dashboard with an empty state", undefined);
+
+function policy(overrides: Partial<GuardrailPolicy>): GuardrailPolicy {
+  return { ...DEFAULT_POLICY, ...overrides };
+}
+
+describe("policyIssues", () => {
+  it("finds nothing wrong with a planned page under the default policy", () => {
+    assert.deepEqual(policyIssues(dashboard, DEFAULT_POLICY), []);
+  });
+
+  it("reports a forbidden combination at the component to drop", () => {
+    const forbidding = policy({
+      forbiddenCombinations: { enabled: true, severity: "error", combinations: [["DataTable", "EmptyState"]] },
+    });
+    const [issue] = policyIssues(dashboard, forbidding);
+    const at = dashboard.components.findIndex((c) => c.type === "EmptyState");
+    assert.equal(issue.rule, "policy.forbidden-combination");
+    assert.equal(issue.path, `$.components[${at}]`);
+    assert.equal(issue.fix, "Remove EmptyState or change forbiddenCombinations.");
+  });
+
+  it("reports at the rule's severity and skips disabled rules", () => {
+    const limit = (enabled: boolean) => policy({ maxComponents: { enabled, severity: "warning", limit: 2 } });
+    const [issue] = policyIssues(dashboard, limit(true));
+    assert.equal(issue.severity, "warning");
+    assert.ok(validatePlan(dashboard, limit(true)).ok);
+    assert.deepEqual(policyIssues(dashboard, limit(false)), []);
+  });
+
+  it("reports each required component that is missing", () => {
+    const required = policy({
+      requiredComponents: { enabled: true, severity: "error", byLayout: { dashboard: ["Footer", "FAQ"] } },
+    });
+    const messages = policyIssues(dashboard, required).map((i) => i.message);
+    assert.deepEqual(messages, ["dashboard pages must include Footer.", "dashboard pages must include FAQ."]);
+  });
+});
+
+describe("guardrailPolicySchema", () => {
+  it("accepts the default policy and rejects unknown rules", () => {
+    assert.ok(guardrailPolicySchema.safeParse(DEFAULT_POLICY).success);
+    assert.ok(!guardrailPolicySchema.safeParse({ ...DEFAULT_POLICY, maxDepth: {} }).success);
+  });
+});
+
+describe("describePolicy", () => {
+  it("lists one line per rule", () => {
+    const lines = describePolicy(DEFAULT_POLICY);
+    const rules = lines.map((l) => l.rule);
+    assert.deepEqual(rules, ["maxComponents", "requiredComponents", "forbiddenCombinations", "titleLength"]);
+    assert.equal(lines[1].detail, "landing: Hero; settings: SettingsModal");
+  });
+});
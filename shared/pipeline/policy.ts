@@ -0,0 +1,147 @@
+import { z } from "zod";
+import type { UIPlan } from "./types";
+import type { ValidationIssue } from "./validate";
+
+const componentName = z.string().regex(/^[A-Z][A-Za-z0-9]*$/, "Use a component name such as DataTable");
+const componentList = z.array(componentName).max(20);
+
+const rule = { enabled: z.boolean(), severity: z.enum(["error", "warning"]) };
+
+// Per-project guardrails on top of the whitelist and prop schemas. A
+// disabled rule keeps its settings so it can be switched back on.
+export const guardrailPolicySchema = z
+  .object({
+    maxComponents: z.object({ ...rule, limit: z.number().int().min(1).max(100) }).strict(),
+    requiredComponents: z
+      .object({
+        ...rule,
+        byLayout: z
+          .object({ dashboard: componentList, landing: componentList, settings: componentList })
+          .partial()
+          .strict(),
+      })
+      .strict(),
+    forbiddenCombinations: z
+      .object({ ...rule, combinations: z.array(z.array(componentName).min(2).max(5)).max(20) })
+      .strict(),
+    titleLength: z
+      .object({ ...rule, min: z.number().int().min(1).max(80), max: z.number().int().min(1).max(80) })
+      .strict()
+      .refine((r) => r.min <= r.max, { message: "min must not exceed max", path: ["min"] }),
+  })
+  .strict();
+
+export type GuardrailPolicy = z.infer<typeof guardrailPolicySchema>;
+
+export type PolicyRuleName = keyof GuardrailPolicy;
+
+export const DEFAULT_POLICY: GuardrailPolicy = {
+  maxComponents: { enabled: true, severity: "error", limit: 20 },
+  requiredComponents: {
+    enabled: true,
+    severity: "error",
+    byLayout: { landing: ["Hero"], settings: ["SettingsModal"] },
+  },
+  forbiddenCombinations: { enabled: false, severity: "error", combinations: [["EmptyState", "DataTable"]] },
+  titleLength: { enabled: true, severity: "warning", min: 3, max: 60 },
+};
+
+// One line per rule for the Guardrails card.
+export function describePolicy(policy: GuardrailPolicy): Array<{
+  rule: PolicyRuleName;
+  label: string;
+  enabled: boolean;
+  detail: string;
+}> {
+  const { maxComponents, requiredComponents, forbiddenCombinations, titleLength } = policy;
+  const required = Object.entries(requiredComponents.byLayout)
+    .filter(([, types]) => types.length > 0)
+    .map(([layout, types]) => `${layout}: ${types.join(", ")}`);
+  return [
+    {
+      rule: "maxComponents",
+      label: "Component limit",
+      enabled: maxComponents.enabled,
+      detail: `at most ${maxComponents.limit}`,
+    },
+    {
+      rule: "requiredComponents",
+      label: "Required components",
+      enabled: requiredComponents.enabled,
+      detail: required.join("; ") || "none",
+    },
+    {
+      rule: "forbiddenCombinations",
+      label: "Forbidden combinations",
+      enabled: forbiddenCombinations.enabled,
+      detail: forbiddenCombinations.combinations.map((c) => c.join(" + ")).join("; ") || "none",
+    },
+    {
+      rule: "titleLength",
+      label: "Title length",
+      enabled: titleLength.enabled,
+      detail: `${titleLength.min}–${titleLength.max} characters`,
+    },
+  ];
+}
+
+// Issues for every enabled rule the plan breaks, at the rule's severity.
+export function policyIssues(plan: UIPlan, policy: GuardrailPolicy): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { maxComponents, requiredComponents, forbiddenCombinations, titleLength } = policy;
+  const types = plan.components.map((c) => c.type as string);
+
+  if (maxComponents.enabled && types.length > maxComponents.limit) {
+    const extra = types.length - maxComponents.limit;
+    issues.push({
+      severity: maxComponents.severity,
+      rule: "policy.max-components",
+      path: "$.components",
+      message: `Plan has ${types.length} components; the policy allows ${maxComponents.limit}.`,
+      fix: `Remove ${extra} component${extra === 1 ? "" : "s"} or raise maxComponents.limit.`,
+    });
+  }
+
+  if (requiredComponents.enabled) {
+    for (const type of requiredComponents.byLayout[plan.layout] ?? []) {
+      if (types.includes(type)) continue;
+      issues.push({
+        severity: requiredComponents.severity,
+        rule: "policy.required-components",
+        path: "$.components",
+        message: `${plan.layout} pages must include ${type}.`,
+        fix: `Add ${type} or drop it from requiredComponents.byLayout.${plan.layout}.`,
+      });
+    }
+  }
+
+  if (forbiddenCombinations.enabled) {
+    for (const combination of forbiddenCombinations.combinations) {
+      if (!combination.every((type) => types.includes(type))) continue;
+      const last = combination[combination.length - 1];
+      issues.push({
+        severity: forbiddenCombinations.severity,
+        rule: "policy.forbidden-combination",
+        path: `$.components[${types.lastIndexOf(last)}]`,
+        message: `${combination.join(" and ")} may not be used together.`,
+        fix: `Remove ${last} or change forbiddenCombinations.`,
+      });
+    }
+  }
+
+  const title = plan.content?.title ?? "";
+  if (titleLength.enabled && title && (title.length < titleLength.min || title.length > titleLength.max)) {
+    issues.push({
+      severity: titleLength.severity,
+      rule: "policy.title-length",
+      path: "$.content.title",
+      message: `Title is ${title.length} characters; the policy allows ${titleLength.min}–${titleLength.max}.`,
+      fix:
+        title.length > titleLength.max
+          ? `Shorten the title to ${titleLength.max} characters.`
+          : `Lengthen the title to at least ${titleLength.min} characters.`,
+    });
+  }
+
+  return issues;
+}
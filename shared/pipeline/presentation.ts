@@ -0,0 +1,60 @@
+import type { ComponentName, LayoutNode, UIPlan } from "./types";
+
+// Presentation details shared by the studio preview and the generated
+// module, so what the preview shows is what the exported code renders.
+
+export const CHART_COMPONENTS: ComponentName[] = ["LineChartCard", "BarChartCard"];
+
+// Layout containers. Rows lay their children on a 12-column grid from the
+// lg breakpoint; class names stay literal so Tailwind picks them up.
+export const ROW_CLASS = "grid grid-cols-1 lg:grid-cols-12 gap-3";
+export const COLUMN_CLASS = "min-w-0 space-y-4";
+
+const SPAN_CLASSES = [
+  "",
+  "lg:col-span-1",
+  "lg:col-span-2",
+  "lg:col-span-3",
+  "lg:col-span-4",
+  "lg:col-span-5",
+  "lg:col-span-6",
+  "lg:col-span-7",
+  "lg:col-span-8",
+  "lg:col-span-9",
+  "lg:col-span-10",
+  "lg:col-span-11",
+  "lg:col-span-12",
+];
+
+// Children of a row without a hint share the row evenly.
+export function spanClass(node: LayoutNode, siblings: number) {
+  const span = node.span ?? Math.max(3, Math.floor(12 / siblings));
+  return SPAN_CLASSES[Math.min(12, Math.max(1, span))];
+}
+
+// Sample series for chart cards until the plan carries its own data.
+export const SAMPLE_TREND = [
+  { period: "Jan", value: 186 },
+  { period: "Feb", value: 305 },
+  { period: "Mar", value: 237 },
+  { period: "Apr", value: 273 },
+  { period: "May", value: 209 },
+  { period: "Jun", value: 314 },
+];
+
+export const SAMPLE_BREAKDOWN = [
+  { segment: "North", value: 420 },
+  { segment: "South", value: 310 },
+  { segment: "East", value: 265 },
+  { segment: "West", value: 190 },
+];
+
+export function toneClass(tone: UIPlan["tone"]) {
+  return tone === "minimal"
+    ? "bg-white/70"
+    : tone === "enterprise"
+      ? "bg-white/60"
+      : tone === "playful"
+        ? "bg-white/65"
+        : "bg-white/60";
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planner } from "./planner";
+import { planWith, type PlannerProvider, type PlannerRequest } from "./providers";
+
+const request: PlannerRequest = { prompt: "Create a dashboard", mode: "generate" };
+
+// A provider that answers with `outputs` in turn and records what it was asked.
+function scripted(...outputs: Array<unknown | Error>) {
+  const requests: PlannerRequest[] = [];
+  const provider: PlannerProvider = {
+    name: "llm",
+    async plan(req) {
+      requests.push(req);
+      const output = outputs[Math.min(requests.length, outputs.length) - 1];
+      if (output instanceof Error) throw output;
+      return output as never;
+    },
+  };
+  return { provider, requests };
+}
+
+function withCarousel() {
+  const plan = planner(request.prompt, undefined);
+  return { ...plan, components: [...plan.components, { id: "carousel-1", type: "Carousel", props: {} }] };
+}
+
+describe("planWith", () => {
+  it("keeps a plan that passes validation", async () => {
+    const plan = { ...planner(request.prompt, undefined), content: { title: "Ops" } };
+    const { provider } = scripted(plan);
+    const result = await planWith(provider, request);
+    assert.equal(result.plan.content.title, "Ops");
+    assert.deepEqual(result.report, { provider: "llm", corrections: [] });
+  });
+
+  it("falls back to the rule planner when the provider fails", async () => {
+    const { provider } = scripted(new Error("connection refused"));
+    const result = await planWith(provider, request, 3);
+    assert.deepEqual(result.plan, planner(request.prompt, undefined));
+    assert.deepEqual(result.report, { provider: "rules", fallback: { from: "llm", reason: "connection refused" } });
+  });
+
+  it("falls back to the rule planner on output that is not a plan", async () => {
+    const { provider } = scripted({ layout: "dashboard" });
+    const result = await planWith(provider, request);
+    assert.equal(result.report.provider, "rules");
+    assert.match(result.report.fallback?.reason ?? "", /^Output is not a UIPlan: \$\./);
+  });
+
+  it("sends a rejected plan back with its issues and keeps the repair", async () => {
+    const repaired = planner(request.prompt, undefined);
+    const { provider, requests } = scripted(withCarousel(), repaired);
+    const result = await planWith(provider, request, 1);
+    assert.deepEqual(result.plan, repaired);
+    assert.deepEqual(result.report.corrections, ["Asked the llm planner to fix: Component not allowed: Carousel"]);
+    assert.deepEqual(requests[1].repair?.output, withCarousel());
+    assert.deepEqual(requests[1].repair?.issues.map((i) => i.rule), ["component.allowed"]);
+  });
+
+  it("falls back to the rule planner once the repair rounds run out", async () => {
+    const { provider, requests } = scripted(withCarousel());
+    const result = await planWith(provider, request, 2);
+    assert.equal(requests.length, 3);
+    assert.equal(result.report.provider, "rules");
+    assert.match(result.report.fallback?.reason ?? "", /Component not allowed: Carousel/);
+  });
+});
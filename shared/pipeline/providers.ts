@@ -0,0 +1,96 @@
+import { planner } from "./planner";
+import type { GuardrailPolicy } from "./policy";
+import { uiPlanSchema } from "./schema";
+import type { PipelineMode, PlannerName, UIPlan } from "./types";
+import { validatePlan, type ValidationIssue } from "./validate";
+
+export type PlannerRequest = {
+  prompt: string;
+  mode: PipelineMode;
+  // The plan being modified; unset for "generate".
+  prev?: UIPlan;
+  policy?: GuardrailPolicy;
+  // Set on a repair round: the provider's last output and why it failed.
+  repair?: { output: unknown; issues: ValidationIssue[] };
+  // Aborted when the caller gives up on the run.
+  signal?: AbortSignal;
+};
+
+// A source of plans. Output is untrusted: planWith checks it against the
+// UIPlan shape and validatePlan before it is used.
+export interface PlannerProvider {
+  readonly name: PlannerName;
+  plan(request: PlannerRequest): Promise<unknown>;
+}
+
+// Which provider produced the plan, what it was asked to correct on the
+// way, and why another one was passed over.
+export type PlannerReport = {
+  provider: PlannerName;
+  corrections?: string[];
+  fallback?: { from: PlannerName; reason: string };
+};
+
+// The keyword planner. Deterministic and always available.
+export const rulePlanner: PlannerProvider = {
+  name: "rules",
+  async plan({ prompt, prev }) {
+    return planner(prompt, prev);
+  },
+};
+
+// Whether a provider's raw output may be used: it must be a well-formed
+// UIPlan that passes validatePlan under the request's policy.
+export function acceptPlan(
+  output: unknown,
+  policy?: GuardrailPolicy,
+): { ok: true; plan: UIPlan } | { ok: false; reason: string; issues: ValidationIssue[] } {
+  const parsed = uiPlanSchema.safeParse(output);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => ({
+      severity: "error" as const,
+      rule: "plan.shape",
+      path: ["$", ...issue.path].join("."),
+      message: issue.message,
+      fix: "Return an object with the UIPlan shape.",
+    }));
+    const [first] = issues;
+    return { ok: false, reason: `Output is not a UIPlan: ${first.path}: ${first.message}`, issues };
+  }
+  const plan = parsed.data as UIPlan;
+  const validation = validatePlan(plan, policy);
+  return validation.ok ? { ok: true, plan } : { ok: false, reason: validation.error, issues: validation.issues };
+}
+
+// Asks `provider` for a plan and keeps it only if acceptPlan does. A
+// rejected plan goes back to the provider with its issues for up to
+// `maxRepairs` more rounds; after that the rule planner answers instead, so
+// only whitelisted, schema-checked components ever reach the generator.
+export async function planWith(
+  provider: PlannerProvider,
+  request: PlannerRequest,
+  maxRepairs = 0,
+): Promise<{ plan: UIPlan; report: PlannerReport }> {
+  const rules = async (): Promise<UIPlan> => planner(request.prompt, request.prev);
+  if (provider.name === "rules") return { plan: await rules(), report: { provider: "rules" } };
+
+  let reason: string;
+  const corrections: string[] = [];
+  try {
+    let output = await provider.plan(request);
+    for (let attempt = 0; ; attempt++) {
+      const accepted = acceptPlan(output, request.policy);
+      if (accepted.ok) return { plan: accepted.plan, report: { provider: provider.name, corrections } };
+      reason = accepted.reason;
+      if (attempt >= maxRepairs) break;
+
+      const errors = accepted.issues.filter((i) => i.severity === "error");
+      corrections.push(...errors.map((i) => `Asked the ${provider.name} planner to fix: ${i.message}`));
+      output = await provider.plan({ ...request, repair: { output, issues: errors } });
+    }
+  } catch (err) {
+    reason = (err as Error).message;
+  }
+
+  return { plan: await rules(), report: { provider: "rules", fallback: { from: provider.name, reason } } };
+}
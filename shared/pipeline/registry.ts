@@ -0,0 +1,62 @@
+import type { z } from "zod";
+import { ALLOWED_COMPONENTS, type RegionName } from "./types";
+
+// What a component contributes to the generated module: the imports its
+// definition needs, the TypeScript shape of its props, and a function
+// declaration named `ident` that takes those props.
+export type CodeTemplate = {
+  imports: Array<[module: string, name: string]>;
+  propsType: string;
+  ident: string;
+  definition: string[];
+};
+
+// Everything the pipeline needs to plan, validate, generate, preview and
+// explain a component that is not built in. `preview` is opaque here; the
+// studio supplies a React renderer.
+export type ComponentDefinition<P extends Record<string, unknown> = Record<string, unknown>, Preview = unknown> = {
+  name: string;
+  props: z.ZodType<P, z.ZodTypeDef, unknown>;
+  defaults: P;
+  // Prompt phrases that add the component ("pill", "status pill").
+  triggers: string[];
+  // Where new instances are placed; defaults to the main area.
+  region?: RegionName;
+  code: CodeTemplate;
+  preview: Preview;
+  // "status pill"; used when listing and removing components.
+  noun: string;
+  explain?: (props: P[]) => string;
+};
+
+const NAME_RE = /^[A-Z][A-Za-z0-9]*$/;
+
+const registry = new Map<string, ComponentDefinition>();
+
+// Adds a component to the whitelist. Names are PascalCase and cannot shadow
+// a built-in or an earlier registration; the defaults must satisfy the
+// props schema so a freshly added instance always validates.
+export function registerComponent<P extends Record<string, unknown>, Preview>(
+  definition: ComponentDefinition<P, Preview>,
+): ComponentDefinition<P, Preview> {
+  const { name } = definition;
+  if (!NAME_RE.test(name)) throw new Error(`Invalid component name: ${name}`);
+  if (ALLOWED_COMPONENTS.has(name)) throw new Error(`Component already registered: ${name}`);
+  if (!definition.props.safeParse(definition.defaults).success) {
+    throw new Error(`Default props for ${name} do not match its schema`);
+  }
+  if (definition.triggers.length === 0) throw new Error(`Component ${name} needs at least one trigger`);
+
+  registry.set(name, definition as unknown as ComponentDefinition);
+  ALLOWED_COMPONENTS.add(name);
+  return definition;
+}
+
+export function customComponent(name: string): ComponentDefinition | undefined {
+  return registry.get(name);
+}
+
+// In registration order.
+export function customComponents(): ComponentDefinition[] {
+  return Array.from(registry.values());
+}
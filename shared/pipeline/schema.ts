@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { guardrailPolicySchema } from "./policy";
+import { LAYOUTS, PLANNER_NAMES, TONES, type LayoutNode } from "./types";
+import { upgradePlan } from "./upgrade";
+
+const span = z.number().int().min(1).max(12).optional();
+
+const layoutNodeSchema: z.ZodType<LayoutNode> = z.lazy(() =>
+  z.union([
+    z.object({ kind: z.literal("component"), ref: z.string(), span }),
+    z.object({ kind: z.enum(["row", "column"]), children: z.array(layoutNodeSchema), span }),
+  ]),
+);
+
+const regionSchema = z.array(layoutNodeSchema);
+
+// Shape-only checks for plans arriving over the wire. Component types and
+// props are left loose so the whitelist and per-component prop schemas are
+// enforced by validatePlan.
+export const uiPlanSchema = z.preprocess(
+  upgradePlan,
+  z.object({
+    layout: z.enum(LAYOUTS),
+    tone: z.enum(TONES),
+    components: z.array(
+      z.object({
+        id: z.string(),
+        type: z.string(),
+        props: z.record(z.unknown()),
+      }),
+    ),
+    regions: z.object({
+      header: regionSchema,
+      sidebar: regionSchema,
+      main: regionSchema,
+      footer: regionSchema,
+    }),
+    content: z.object({
+      title: z.string(),
+      subtitle: z.string().optional(),
+    }),
+  }),
+);
+
+// `policy` is the caller's project policy; the default applies without one.
+// `planner` picks the plan source; the server's default applies without one.
+// `repair` lets a plan that fails validation go through repair rounds.
+export const generateRequestSchema = z.object({
+  prompt: z.string().trim().min(1).max(5000),
+  policy: guardrailPolicySchema.optional(),
+  planner: z.enum(PLANNER_NAMES).optional(),
+  repair: z.boolean().optional(),
+});
+
+export const modifyRequestSchema = generateRequestSchema.extend({
+  plan: uiPlanSchema,
+});
+
+export const exportRequestSchema = z.object({
+  plan: uiPlanSchema,
+  policy: guardrailPolicySchema.optional(),
+});
+
+export const PIPELINE_SOCKET_PATH = "/ws/pipeline";
+
+// Messages a client sends over the pipeline socket. `id` names the run and
+// tags every event sent back; "cancel" stops the run with that id.
+export const pipelineSocketRequestSchema = z.discriminatedUnion("type", [
+  generateRequestSchema.extend({
+    type: z.literal("run"),
+    id: z.string().min(1).max(64),
+    mode: z.enum(["generate", "modify"]),
+    plan: uiPlanSchema.optional(),
+  }),
+  z.object({ type: z.literal("cancel"), id: z.string().min(1).max(64) }),
+]);
+
+export type GenerateRequest = z.infer<typeof generateRequestSchema>;
+export type ModifyRequest = z.infer<typeof modifyRequestSchema>;
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+export type PipelineSocketRequest = z.infer<typeof pipelineSocketRequestSchema>;
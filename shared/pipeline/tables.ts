@@ -0,0 +1,146 @@
+import { clampText } from "./types";
+
+export type TableData = { columns: string[]; rows: string[][] };
+
+export type TableSource = "columns" | "csv" | "tsv" | "markdown";
+
+// A table pasted into a prompt, with the character range it occupied.
+export type PastedTable = TableData & { source: TableSource; start: number; end: number };
+
+// Mirrors the DataTable props schema.
+export const MAX_TABLE_COLUMNS = 20;
+export const MAX_TABLE_ROWS = 200;
+export const MAX_CELL_LENGTH = 200;
+
+function clampCell(cell: string) {
+  // clampText appends an ellipsis, so leave room for it.
+  return clampText(cell.trim(), MAX_CELL_LENGTH - 1);
+}
+
+// Oversized input is truncated rather than rejected: extra columns and rows
+// are dropped, long cells are cut, and short rows are padded.
+export function clampTable(table: TableData): TableData {
+  const columns = table.columns.slice(0, MAX_TABLE_COLUMNS).map(clampCell);
+  const rows = table.rows
+    .slice(0, MAX_TABLE_ROWS)
+    .map((row) => columns.map((_, i) => clampCell(row[i] ?? "")));
+  return { columns, rows };
+}
+
+// "name, email, plan and MRR"
+export function parseColumnList(text: string): string[] {
+  return text
+    .split(/,|\s+and\s+|\s*&\s*/)
+    .map((c) => c.trim().replace(/^(?:and|the)\s+/i, ""))
+    .filter(Boolean);
+}
+
+// Splits one CSV/TSV line, honouring double quotes and "" escapes.
+function splitDelimited(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+}
+
+function splitMarkdown(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((c) => c.trim());
+}
+
+const MARKDOWN_ROW_RE = /^\s*\|.*\|\s*$/;
+const MARKDOWN_RULE_RE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+type Line = { text: string; start: number; end: number };
+
+function linesOf(input: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const text of input.split("\n")) {
+    lines.push({ text: text.replace(/\r$/, ""), start, end: start + text.length });
+    start += text.length + 1;
+  }
+  return lines;
+}
+
+function delimitedBlock(lines: Line[], from: number, source: "csv" | "tsv"): [PastedTable, number] | undefined {
+  const delimiter = source === "csv" ? "," : "\t";
+  const header = splitDelimited(lines[from].text, delimiter);
+  if (header.length < 2) return undefined;
+
+  let to = from + 1;
+  const rows: string[][] = [];
+  while (to < lines.length) {
+    const cells = splitDelimited(lines[to].text, delimiter);
+    if (cells.length !== header.length) break;
+    rows.push(cells);
+    to++;
+  }
+  if (rows.length === 0) return undefined;
+
+  const table = clampTable({ columns: header, rows });
+  return [{ ...table, source, start: lines[from].start, end: lines[to - 1].end }, to];
+}
+
+function markdownBlock(lines: Line[], from: number): [PastedTable, number] | undefined {
+  if (!MARKDOWN_ROW_RE.test(lines[from].text) || !MARKDOWN_RULE_RE.test(lines[from + 1]?.text ?? "")) {
+    return undefined;
+  }
+  let to = from + 2;
+  while (to < lines.length && MARKDOWN_ROW_RE.test(lines[to].text)) to++;
+
+  const table = clampTable({
+    columns: splitMarkdown(lines[from].text),
+    rows: lines.slice(from + 2, to).map((l) => splitMarkdown(l.text)),
+  });
+  return [{ ...table, source: "markdown", start: lines[from].start, end: lines[to - 1].end }, to];
+}
+
+// Finds Markdown, TSV and CSV tables in a prompt. A CSV/TSV block is a
+// header line plus at least one following line with the same number of
+// cells, so ordinary sentences with commas are left alone.
+export function findPastedTables(input: string): PastedTable[] {
+  const lines = linesOf(input);
+  const tables: PastedTable[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const text = lines[i].text;
+    const found =
+      markdownBlock(lines, i) ??
+      (text.includes("\t") ? delimitedBlock(lines, i, "tsv") : undefined) ??
+      (text.includes(",") ? delimitedBlock(lines, i, "csv") : undefined);
+    if (found) {
+      tables.push(found[0]);
+      i = found[1];
+    } else {
+      i++;
+    }
+  }
+  return tables;
+}
@@ -0,0 +1,81 @@
+import type { ComponentProps } from "./components";
+
+export const COMPONENT_NAMES = [
+  "AppShell",
+  "TopNav",
+  "Sidebar",
+  "KPIGrid",
+  "LineChartCard",
+  "BarChartCard",
+  "DataTable",
+  "SettingsModal",
+  "EmptyState",
+  "Hero",
+  "PricingTable",
+  "FeatureGrid",
+  "Testimonial",
+  "FormCard",
+  "TabsPanel",
+  "FAQAccordion",
+  "Footer",
+] as const;
+
+export type ComponentName = (typeof COMPONENT_NAMES)[number];
+
+export const ALLOWED_COMPONENTS = new Set<string>(COMPONENT_NAMES);
+
+export const LAYOUTS = ["dashboard", "landing", "settings"] as const;
+export const TONES = ["minimal", "bold", "playful", "enterprise"] as const;
+
+export type ComponentInstance<K extends ComponentName = ComponentName> = {
+  [T in K]: { id: string; type: T; props: ComponentProps[T] };
+}[K];
+
+export const REGION_NAMES = ["header", "sidebar", "main", "footer"] as const;
+
+export type RegionName = (typeof REGION_NAMES)[number];
+
+// Span hints are out of 12 and only apply to children of a row.
+export type ComponentNode = { kind: "component"; ref: string; span?: number };
+export type ContainerNode = { kind: "row" | "column"; children: LayoutNode[]; span?: number };
+export type LayoutNode = ComponentNode | ContainerNode;
+
+// Each region stacks its nodes vertically.
+export type Regions = Record<RegionName, LayoutNode[]>;
+
+export type UIPlan = {
+  layout: (typeof LAYOUTS)[number];
+  tone: (typeof TONES)[number];
+  // Several instances of the same type may coexist; `regions` decides where
+  // each one renders.
+  components: ComponentInstance[];
+  regions: Regions;
+  content: {
+    title: string;
+    subtitle?: string;
+  };
+};
+
+export type UIModel = {
+  plan: UIPlan;
+  code: string;
+  explanation: string;
+};
+
+export type PipelineMode = "generate" | "modify";
+
+// Where plans come from: the keyword planner or a language model.
+export const PLANNER_NAMES = ["rules", "llm"] as const;
+export type PlannerName = (typeof PLANNER_NAMES)[number];
+
+export function clampText(s: string, max = 5000) {
+  return s.length > max ? s.slice(0, max) + "…" : s;
+}
+
+export function instancesOf<K extends ComponentName>(plan: UIPlan, type: K): ComponentInstance<K>[] {
+  return plan.components.filter((c) => c.type === type) as ComponentInstance<K>[];
+}
+
+export function hasComponent(plan: UIPlan, type: ComponentName) {
+  return plan.components.some((c) => c.type === type);
+}
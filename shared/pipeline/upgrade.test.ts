@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { outlineNodes } from "./layout";
+import { planner } from "./planner";
+import type { UIPlan } from "./types";
+import { upgradePlan } from "./upgrade";
+import { validatePlan } from "./validate";
+
+// A plan as saved before component instances, the layout tree and chart config.
+const legacy = {
+  layout: "dashboard",
+  tone: "minimal",
+  components: ["AppShell", "TopNav", "KPIGrid", "LineChartCard", "DataTable"],
+  content: {
+    title: "Sales",
+    subtitle: "This quarter",
+    kpis: [{ label: "Revenue", value: "$1.2M", delta: "+4%" }],
+    table: { columns: ["Region", "Revenue"], rows: [["Nordics", "$400k"]] },
+  },
+};
+
+describe("upgradePlan", () => {
+  it("lifts a legacy plan into one that validates", () => {
+    const plan = upgradePlan(legacy) as UIPlan;
+    assert.ok(validatePlan(plan).ok);
+    const ids = plan.components.map((c) => c.id);
+    assert.deepEqual(ids, ["appshell-1", "topnav-1", "kpigrid-1", "linechartcard-1", "datatable-1"]);
+    assert.deepEqual(plan.content, { title: "Sales", subtitle: "This quarter" });
+  });
+
+  it("moves KPIs and the table from content into props", () => {
+    const plan = upgradePlan(legacy) as UIPlan;
+    const props = (type: string) => plan.components.find((c) => c.type === type)?.props;
+    assert.deepEqual(props("KPIGrid"), { kpis: legacy.content.kpis });
+    const { columns, rows } = props("DataTable") as { columns: unknown; rows: unknown };
+    assert.deepEqual({ columns, rows }, legacy.content.table);
+    assert.ok(Array.isArray((props("LineChartCard") as { series?: unknown }).series));
+  });
+
+  it("places the instances in the default layout", () => {
+    const plan = upgradePlan(legacy) as UIPlan;
+    assert.equal(outlineNodes(plan.regions.header), "topnav-1");
+    assert.equal(outlineNodes(plan.regions.main), "kpigrid-1 / row(linechartcard-1) / datatable-1");
+  });
+
+  it("keeps unknown components so validation still rejects them", () => {
+    const plan = upgradePlan({ ...legacy, components: [...legacy.components, "Carousel"] }) as UIPlan;
+    assert.ok(plan.components.some((c) => c.id === "carousel-1"));
+    const result = validatePlan(plan);
+    assert.ok(!result.ok);
+    assert.match(result.error, /Component not allowed: Carousel/);
+  });
+
+  it("leaves current plans and non-plans as they are", () => {
+    const plan = planner("Create a dashboard", undefined);
+    assert.deepEqual(upgradePlan(plan), plan);
+    assert.equal(upgradePlan("nope"), "nope");
+  });
+});
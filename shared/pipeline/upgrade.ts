@@ -0,0 +1,67 @@
+import { defaultProps } from "./components";
+import { defaultRegions } from "./layout";
+import { CHART_COMPONENTS } from "./presentation";
+import { ALLOWED_COMPONENTS, type ComponentName } from "./types";
+
+type LegacyContent = {
+  title?: string;
+  subtitle?: string;
+  kpis?: unknown;
+  table?: { columns?: unknown; rows?: unknown };
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function liftComponents(plan: Record<string, unknown>): Record<string, unknown> {
+  const content = (isRecord(plan.content) ? plan.content : {}) as LegacyContent;
+  const counts = new Map<string, number>();
+
+  const components = (plan.components as string[]).map((type) => {
+    const n = (counts.get(type) ?? 0) + 1;
+    counts.set(type, n);
+    const id = `${type.toLowerCase()}-${n}`;
+    if (!ALLOWED_COMPONENTS.has(type)) return { id, type, props: {} };
+
+    const props: Record<string, unknown> = { ...defaultProps(type as ComponentName) };
+    if (type === "KPIGrid" && Array.isArray(content.kpis)) props.kpis = content.kpis;
+    if (type === "DataTable" && content.table) {
+      props.columns = content.table.columns;
+      props.rows = content.table.rows;
+    }
+    return { id, type, props };
+  });
+
+  return {
+    ...plan,
+    components,
+    content: { title: content.title, subtitle: content.subtitle },
+  };
+}
+
+// Chart cards saved with only a title get the default axes and series.
+function fillChartProps(component: unknown): unknown {
+  if (!isRecord(component) || !CHART_COMPONENTS.includes(component.type as ComponentName)) return component;
+  if (!isRecord(component.props) || component.props.series !== undefined) return component;
+  return { ...component, props: { ...defaultProps(component.type as ComponentName), ...component.props } };
+}
+
+// Plans saved before component instances existed list bare component names
+// and keep KPIs and the table in the shared content object; plans saved
+// before the layout tree have no regions, and their chart cards no chart
+// config. Fill these in so old versions still load; anything else passes
+// through as is.
+export function upgradePlan(plan: unknown): unknown {
+  if (!isRecord(plan) || !Array.isArray(plan.components)) return plan;
+  const instances = plan.components.every((c) => typeof c === "string") ? liftComponents(plan) : plan;
+  const components = (instances.components as unknown[]).map(fillChartProps);
+  const lifted: Record<string, unknown> = { ...instances, components };
+  if (lifted.regions !== undefined) return lifted;
+
+  const placeable = (lifted.components as unknown[]).filter(
+    (c): c is { id: string; type: ComponentName } =>
+      isRecord(c) && typeof c.id === "string" && typeof c.type === "string" && ALLOWED_COMPONENTS.has(c.type),
+  );
+  return { ...lifted, regions: defaultRegions(placeable) };
+}
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planner } from "./planner";
+import type { UIPlan } from "./types";
+import { validatePlan } from "./validate";
+
+const base = () => planner("Create a dashboard", undefined);
+
+describe("validatePlan", () => {
+  it("passes a planned dashboard, noting its sample chart data", () => {
+    const result = validatePlan(base());
+    assert.ok(result.ok);
+    assert.deepEqual(result.issues.map((i) => [i.severity, i.rule]), [["info", "content.sample-data"]]);
+  });
+
+  it("reports every error with its rule, path and fix", () => {
+    const plan = base();
+    const grid = plan.components.findIndex((c) => c.type === "KPIGrid");
+    plan.components[grid].props = { kpis: "many" } as never;
+    plan.components.push({ id: "carousel-1", type: "Carousel", props: {} } as never);
+
+    const result = validatePlan(plan);
+    assert.ok(!result.ok);
+    const found = result.issues.map(({ severity, rule, path }) => ({ severity, rule, path }));
+    assert.deepEqual(found.slice(0, 2), [
+      { severity: "error", rule: "props.schema", path: `$.components[${grid}].props.kpis` },
+      { severity: "error", rule: "component.allowed", path: `$.components[${plan.components.length - 1}].type` },
+    ]);
+    assert.ok(result.issues.every((i) => i.fix.length > 0));
+    assert.match(result.error, /\(\+\d+ more\) \[props\.schema, component\.allowed/);
+  });
+
+  it("does not block on warnings", () => {
+    const plan: UIPlan = { ...base(), content: { title: "Ab" } };
+    const result = validatePlan(plan);
+    assert.ok(result.ok);
+    const notable = result.issues.filter((i) => i.severity !== "info").map((i) => [i.severity, i.rule]);
+    assert.deepEqual(notable, [["warning", "policy.title-length"]]);
+  });
+});
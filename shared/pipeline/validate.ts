@@ -0,0 +1,276 @@
+import type { ZodIssue } from "zod";
+import { propsSchema } from "./components";
+import { MAX_LAYOUT_DEPTH } from "./layout";
+import { DEFAULT_POLICY, policyIssues, type GuardrailPolicy } from "./policy";
+import { CHART_COMPONENTS } from "./presentation";
+import { ALLOWED_COMPONENTS, REGION_NAMES, type ComponentName, type LayoutNode, type UIPlan } from "./types";
+
+export const ISSUE_SEVERITIES = ["error", "warning", "info"] as const;
+export type IssueSeverity = (typeof ISSUE_SEVERITIES)[number];
+
+// One finding about a plan. `rule` is a stable id ("props.schema"), `path` a
+// JSON path into the plan ("$.components[2].props.kpis").
+export type ValidationIssue = {
+  severity: IssueSeverity;
+  rule: string;
+  path: string;
+  message: string;
+  fix: string;
+};
+
+// A plan with any error is blocked; `error` summarises the errors and cites
+// their rule ids. Warnings and info never block.
+export type ValidationResult =
+  | { ok: true; issues: ValidationIssue[] }
+  | { ok: false; error: string; issues: ValidationIssue[] };
+
+type Report = (severity: IssueSeverity, rule: string, path: string, message: string, fix: string) => void;
+
+function pathOf(...segments: Array<string | number>) {
+  return "$" + segments.map((s) => (typeof s === "number" ? `[${s}]` : `.${s}`)).join("");
+}
+
+function fixFor(issue: ZodIssue, field: string): string {
+  switch (issue.code) {
+    case "invalid_type":
+      return issue.received === "undefined" ? `Add ${field}.` : `Make ${field} a ${issue.expected}.`;
+    case "unrecognized_keys":
+      return `Remove ${issue.keys.join(", ")}.`;
+    case "invalid_enum_value":
+      return `Use one of: ${issue.options.join(", ")}.`;
+    case "too_small":
+      return issue.type === "array"
+        ? `Give ${field} at least ${issue.minimum} item${issue.minimum === 1 ? "" : "s"}.`
+        : `Fill in ${field}.`;
+    case "too_big":
+      return issue.type === "array"
+        ? `Keep at most ${issue.maximum} items in ${field}.`
+        : `Shorten ${field} to ${issue.maximum} characters.`;
+    default:
+      return `Correct ${field}.`;
+  }
+}
+
+// "Component not allowed: Foo [component.allowed]"
+function summarise(errors: ValidationIssue[]) {
+  const rules = Array.from(new Set(errors.map((e) => e.rule)));
+  const first = errors.length === 1 ? errors[0].message : `${errors[0].message} (+${errors.length - 1} more)`;
+  return `${first} [${rules.join(", ")}]`;
+}
+
+// Checks the plan against the whitelist, prop schemas and layout rules, then
+// against the project's guardrail policy.
+export function validatePlan(plan: UIPlan, policy: GuardrailPolicy = DEFAULT_POLICY): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const report: Report = (severity, rule, path, message, fix) => issues.push({ severity, rule, path, message, fix });
+
+  if (!plan?.layout) {
+    report("error", "plan.layout", "$.layout", "Plan missing layout.", "Ask for a dashboard, landing or settings.");
+  }
+  if (!plan?.tone) {
+    report("error", "plan.tone", "$.tone", "Plan missing tone.", "Ask for a minimal, bold, playful or enterprise UI.");
+  }
+  if (!plan?.content?.title) {
+    report("error", "plan.title", "$.content.title", "Plan missing title.", 'Name the page, e.g. "titled Ops".');
+  }
+
+  if (!Array.isArray(plan?.components) || plan.components.length === 0) {
+    report("error", "plan.components", "$.components", "Plan needs at least one component.", "Ask for a component.");
+    return finish(issues);
+  }
+
+  validateComponents(plan, report);
+  validateRegions(plan, report);
+  validateContent(plan, report);
+  issues.push(...policyIssues(plan, policy));
+  return finish(issues);
+}
+
+function finish(issues: ValidationIssue[]): ValidationResult {
+  const errors = issues.filter((i) => i.severity === "error");
+  return errors.length ? { ok: false, error: summarise(errors), issues } : { ok: true, issues };
+}
+
+function validateComponents(plan: UIPlan, report: Report) {
+  const ids = new Set<string>();
+  plan.components.forEach((c, i) => {
+    if (!ALLOWED_COMPONENTS.has(c.type)) {
+      report(
+        "error",
+        "component.allowed",
+        pathOf("components", i, "type"),
+        `Component not allowed: ${c.type}`,
+        "Remove it, or register it as a custom component.",
+      );
+      return;
+    }
+    if (!c.id) {
+      report(
+        "error",
+        "component.id",
+        pathOf("components", i, "id"),
+        `Component ${c.type} is missing an id.`,
+        "Give every component an id.",
+      );
+    } else if (ids.has(c.id)) {
+      report(
+        "error",
+        "component.unique-id",
+        pathOf("components", i, "id"),
+        `Duplicate component id: ${c.id}`,
+        "Rename one of the components.",
+      );
+    }
+    ids.add(c.id);
+
+    const parsed = propsSchema(c.type as ComponentName).safeParse(c.props);
+    if (parsed.success) return;
+    for (const issue of parsed.error.issues) {
+      const field = issue.path.length ? issue.path.join(".") : "props";
+      report(
+        "error",
+        "props.schema",
+        pathOf("components", i, "props", ...issue.path),
+        `Invalid props for ${c.id} (${c.type}): ${issue.path.length ? `${field}: ` : ""}${issue.message}`,
+        fixFor(issue, field),
+      );
+    }
+  });
+}
+
+// Every instance except the AppShell frame is placed exactly once, and
+// containers are non-empty and shallow.
+function validateRegions(plan: UIPlan, report: Report) {
+  if (!plan.regions) {
+    report("error", "layout.regions", "$.regions", "Plan missing regions.", "Place the components in regions.");
+    return;
+  }
+  const typeOf = new Map(plan.components.map((c) => [c.id, c.type]));
+  const placed = new Set<string>();
+
+  const walk = (nodes: LayoutNode[], path: Array<string | number>, depth: number) => {
+    if (depth > MAX_LAYOUT_DEPTH) {
+      report(
+        "error",
+        "layout.depth",
+        pathOf(...path),
+        `Layout in ${path[1]} is nested too deeply.`,
+        `Keep rows and columns at most ${MAX_LAYOUT_DEPTH} levels deep.`,
+      );
+      return;
+    }
+    nodes.forEach((node, i) => {
+      const at = [...path, i];
+      if (node.span !== undefined && !(Number.isInteger(node.span) && node.span >= 1 && node.span <= 12)) {
+        report(
+          "error",
+          "layout.span",
+          pathOf(...at, "span"),
+          `Invalid span in ${path[1]}: ${node.span}`,
+          "Use a whole number of columns from 1 to 12.",
+        );
+      }
+
+      if (node.kind === "component") {
+        const type = typeOf.get(node.ref);
+        if (!type) {
+          report(
+            "error",
+            "layout.unknown-ref",
+            pathOf(...at, "ref"),
+            `Layout references unknown component: ${node.ref}`,
+            "Remove the node or add the component.",
+          );
+        } else if (type === "AppShell") {
+          report(
+            "error",
+            "layout.app-shell",
+            pathOf(...at),
+            "AppShell is the page frame and cannot be placed.",
+            "Remove the AppShell node from the regions.",
+          );
+        } else if (placed.has(node.ref)) {
+          report(
+            "error",
+            "layout.duplicate",
+            pathOf(...at),
+            `Component placed twice in layout: ${node.ref}`,
+            "Remove one of the nodes.",
+          );
+        }
+        placed.add(node.ref);
+        return;
+      }
+
+      if (node.children.length === 0) {
+        report(
+          "error",
+          "layout.empty-container",
+          pathOf(...at),
+          `Empty ${node.kind} in ${path[1]}.`,
+          `Remove the empty ${node.kind}.`,
+        );
+      }
+      walk(node.children, [...at, "children"], depth + 1);
+    });
+  };
+
+  for (const region of REGION_NAMES) walk(plan.regions[region] ?? [], ["regions", region], 1);
+
+  plan.components.forEach((c, i) => {
+    if (c.type === "AppShell" || placed.has(c.id) || !ALLOWED_COMPONENTS.has(c.type)) return;
+    report(
+      "error",
+      "layout.unplaced",
+      pathOf("components", i),
+      `Component not placed in layout: ${c.id}`,
+      `Move ${c.id} into a region.`,
+    );
+  });
+}
+
+// Plans that validate but will render thin or placeholder content.
+function validateContent(plan: UIPlan, report: Report) {
+  plan.components.forEach((c, i) => {
+    if (!ALLOWED_COMPONENTS.has(c.type) || !propsSchema(c.type).safeParse(c.props).success) return;
+    if (c.type === "KPIGrid" && c.props.kpis?.length === 0) {
+      report(
+        "warning",
+        "content.kpis-empty",
+        pathOf("components", i, "props", "kpis"),
+        `KPIGrid ${c.id} has no KPIs.`,
+        'Add some ("KPIs: Revenue, Churn") or remove the KPI grid.',
+      );
+    }
+    if (c.type === "DataTable" && c.props.rows?.length === 0 && !c.props.dataset) {
+      report(
+        "warning",
+        "content.table-empty",
+        pathOf("components", i, "props", "rows"),
+        `DataTable ${c.id} has no rows.`,
+        "Paste a table, upload a dataset, or remove the table.",
+      );
+    }
+    if (CHART_COMPONENTS.includes(c.type) && !("dataset" in c.props && c.props.dataset)) {
+      report(
+        "info",
+        "content.sample-data",
+        pathOf("components", i, "props", "dataset"),
+        `${c.type} ${c.id} plots sample data.`,
+        "Upload a dataset to plot real values.",
+      );
+    }
+  });
+
+  const dataIndex = plan.components.findIndex((c) => ["KPIGrid", "DataTable", ...CHART_COMPONENTS].includes(c.type));
+  const emptyIndex = plan.components.findIndex((c) => c.type === "EmptyState");
+  if (dataIndex !== -1 && emptyIndex !== -1) {
+    report(
+      "info",
+      "content.empty-with-data",
+      pathOf("components", emptyIndex),
+      "Empty state is shown next to components that have data.",
+      "Remove the empty state once the page has data.",
+    );
+  }
+}
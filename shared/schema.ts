@@ -1,7 +1,11 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { jsonb, pgTable, text, timestamp, varchar, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { datasetColumnSchema, datasetValueSchema, type DatasetColumn, type DatasetValue } from "./pipeline/datasets";
+import { guardrailPolicySchema, type GuardrailPolicy } from "./pipeline/policy";
+import { uiPlanSchema } from "./pipeline/schema";
+import type { PipelineMode, UIPlan } from "./pipeline/types";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -16,3 +20,130 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+export const projects = pgTable("projects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  currentVersionId: varchar("current_version_id"),
+  // Guardrail policy for the project; null means the default policy.
+  policy: jsonb("policy").$type<GuardrailPolicy>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertProjectSchema = createInsertSchema(projects, {
+  policy: guardrailPolicySchema.nullable().optional(),
+}).pick({
+  name: true,
+  policy: true,
+});
+
+// currentVersionId only moves through PUT /current-version, which checks the
+// version exists.
+export const updateProjectSchema = insertProjectSchema.partial();
+
+// Moves the project to `versionId`. With `expected`, only if the project is
+// still on that version, so concurrent runs cannot silently overwrite each
+// other; restores leave it out.
+export const currentVersionRequestSchema = z.object({
+  versionId: z.string().min(1),
+  expected: z.string().nullable().optional(),
+});
+
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type UpdateProject = z.infer<typeof updateProjectSchema>;
+export type Project = typeof projects.$inferSelect;
+
+export const planVersions = pgTable("plan_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  parentId: varchar("parent_id").references((): AnyPgColumn => planVersions.id, {
+    onDelete: "set null",
+  }),
+  prompt: text("prompt").notNull().default(""),
+  mode: text("mode").$type<PipelineMode>().notNull().default("generate"),
+  plan: jsonb("plan").$type<UIPlan>().notNull(),
+  code: text("code").notNull(),
+  explanation: text("explanation").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPlanVersionSchema = createInsertSchema(planVersions, {
+  plan: uiPlanSchema,
+  mode: z.enum(["generate", "modify"]),
+}).pick({
+  id: true,
+  projectId: true,
+  parentId: true,
+  prompt: true,
+  mode: true,
+  plan: true,
+  code: true,
+  explanation: true,
+});
+
+// What a client sends to save a version. The server derives code and
+// explanation from the plan rather than storing what it was sent.
+export const planVersionRequestSchema = insertPlanVersionSchema.omit({ code: true, explanation: true });
+
+export type InsertPlanVersion = z.infer<typeof insertPlanVersionSchema>;
+export type PlanVersion = typeof planVersions.$inferSelect;
+
+export const chatMessages = pgTable("chat_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  role: text("role").$type<"user" | "assistant">().notNull(),
+  content: text("content").notNull(),
+  // Display name of the session member who sent it; null for agent replies.
+  author: text("author"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages, {
+  role: z.enum(["user", "assistant"]),
+}).pick({
+  id: true,
+  projectId: true,
+  role: true,
+  content: true,
+  author: true,
+});
+
+export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+
+// Uploaded data files, parsed into typed columns. Plans refer to them by id.
+export const datasets = pgTable("datasets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  columns: jsonb("columns").$type<DatasetColumn[]>().notNull(),
+  rows: jsonb("rows").$type<DatasetValue[][]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertDatasetSchema = createInsertSchema(datasets, {
+  columns: z.array(datasetColumnSchema).min(1),
+  rows: z.array(z.array(datasetValueSchema)),
+}).pick({
+  projectId: true,
+  name: true,
+  columns: true,
+  rows: true,
+});
+
+export type InsertDataset = z.infer<typeof insertDatasetSchema>;
+export type Dataset = typeof datasets.$inferSelect;
+
+export type ProjectSnapshot = {
+  project: Project;
+  versions: PlanVersion[];
+  messages: ChatMessage[];
+  datasets: Dataset[];
+};
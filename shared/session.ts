@@ -0,0 +1,40 @@
+import { z } from "zod";
+import type { ChatMessage, Dataset, PlanVersion, Project } from "./schema";
+
+export const PROJECT_SOCKET_PATH = "/ws/project";
+
+// Sent with REST writes so the change is attributed to this session member
+// and not echoed back to them.
+export const CLIENT_ID_HEADER = "X-Client-Id";
+
+export const peerActivitySchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("idle") }),
+  z.object({ kind: z.literal("running"), prompt: z.string().max(200) }),
+]);
+
+export type PeerActivity = z.infer<typeof peerActivitySchema>;
+
+export type Peer = {
+  clientId: string;
+  name: string;
+  color: string;
+  activity: PeerActivity;
+};
+
+// What a session member sends: what it is doing right now.
+export const sessionRequestSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("activity"), activity: peerActivitySchema }),
+]);
+
+export type SessionRequest = z.infer<typeof sessionRequestSchema>;
+
+// What the server sends. Every change saved through the REST API is
+// broadcast to the project's session; `by` is the member who made it, or
+// null for writes from outside a session.
+export type SessionEvent =
+  | { type: "welcome"; clientId: string; peers: Peer[] }
+  | { type: "presence"; peers: Peer[] }
+  | { type: "message"; message: ChatMessage; by: string | null }
+  | { type: "version"; version: PlanVersion; by: string | null }
+  | { type: "project"; project: Project; by: string | null }
+  | { type: "dataset"; dataset: Dataset; by: string | null };
@@ -0,0 +1,44 @@
+export type VersionLike = { id: string; parentId: string | null };
+
+export type VersionTreeRow<T extends VersionLike> = {
+  version: T;
+  // Indentation lane: the first child continues its parent's lane, every
+  // later child opens a new branch one lane deeper.
+  depth: number;
+  childCount: number;
+  isBranch: boolean;
+};
+
+// Depth-first flattening of a version tree, children in creation order.
+// Versions whose parent is unknown are treated as roots.
+export function flattenVersionTree<T extends VersionLike>(versions: T[]): VersionTreeRow<T>[] {
+  const ids = new Set(versions.map((v) => v.id));
+  const children = new Map<string | null, T[]>();
+  for (const v of versions) {
+    const key = v.parentId && ids.has(v.parentId) ? v.parentId : null;
+    const list = children.get(key) ?? [];
+    list.push(v);
+    children.set(key, list);
+  }
+
+  const rows: VersionTreeRow<T>[] = [];
+  const visit = (v: T, depth: number, isBranch: boolean) => {
+    const kids = children.get(v.id) ?? [];
+    rows.push({ version: v, depth, childCount: kids.length, isBranch });
+    kids.forEach((kid, i) => visit(kid, i === 0 ? depth : depth + 1, i > 0));
+  };
+  (children.get(null) ?? []).forEach((root, i) => visit(root, 0, i > 0));
+  return rows;
+}
+
+// Ids from the given version up to its root, inclusive.
+export function versionLineage<T extends VersionLike>(versions: T[], id: string | null): Set<string> {
+  const byId = new Map(versions.map((v) => [v.id, v]));
+  const lineage = new Set<string>();
+  let cursor = id ? byId.get(id) : undefined;
+  while (cursor && !lineage.has(cursor.id)) {
+    lineage.add(cursor.id);
+    cursor = cursor.parentId ? byId.get(cursor.parentId) : undefined;
+  }
+  return lineage;
+}